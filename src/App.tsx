@@ -1,47 +1,183 @@
 import React, { useState } from 'react';
 import ProviderSelection from './components/ProviderSelection';
 import MainInterface from './components/MainInterface';
-import { Provider, AppState } from './types';
+import ApiKeyPrompt from './components/ApiKeyPrompt';
+import KeyVaultPanel from './components/KeyVaultPanel';
+import { ProviderProfile } from './types';
+import { useLocalStorage } from './hooks/useLocalStorage';
+import { useKeyVault } from './hooks/useKeyVault';
+import { useConversations } from './hooks/useConversations';
+
+// Profiles on the same endpoint share one API key
+const getKeyRef = (profile: Pick<ProviderProfile, 'provider' | 'baseURL'>): string => {
+  return `${profile.provider}:${profile.baseURL || 'default'}`;
+};
 
 function App() {
-  const [isConfigured, setIsConfigured] = useState(false);
-  const [appState, setAppState] = useState<Pick<AppState, 'provider' | 'model' | 'apiKey' | 'baseURL'>>({
-    provider: null,
-    model: null,
-    apiKey: '',
-    baseURL: undefined
-  });
-
-  const handleProviderSelect = (provider: Provider, model: string, apiKey: string, baseURL?: string) => {
-    setAppState({
-      provider,
-      model,
-      apiKey,
-      baseURL
-    });
-    setIsConfigured(true);
-  };
-
-  const handleChangeProvider = () => {
-    setIsConfigured(false);
-    setAppState({
-      provider: null,
-      model: null,
-      apiKey: '',
-      baseURL: undefined
-    });
-  };
-
-  if (!isConfigured) {
-    return <ProviderSelection onProviderSelect={handleProviderSelect} />;
+  const [profiles, setProfiles] = useLocalStorage<ProviderProfile[]>('ai-nodecoder-profiles', []);
+  // Last profile used - new conversations start on it
+  const [activeProfileId, setActiveProfileId] = useLocalStorage<string | null>('ai-nodecoder-active-profile', null);
+  // API keys are only held in memory, keyed by ProviderProfile.keyRef - the vault is their only persistent home
+  const [sessionKeys, setSessionKeys] = useState<Record<string, string>>({});
+  const [isAddingProfile, setIsAddingProfile] = useState(false);
+  const [isVaultOpen, setIsVaultOpen] = useState(false);
+  const keyVault = useKeyVault();
+  const conversationStore = useConversations(activeProfileId);
+  const { activeConversation } = conversationStore;
+
+  // Each conversation remembers its profile; fall back to the last used one if it was deleted
+  const activeProfile = profiles.find(profile => profile.id === activeConversation?.profileId)
+    || profiles.find(profile => profile.id === activeProfileId)
+    || null;
+
+  const selectProfile = (profileId: string) => {
+    setActiveProfileId(profileId);
+    if (activeConversation) {
+      conversationStore.update(activeConversation.id, conversation => ({ ...conversation, profileId }));
+    }
+  };
+
+  // Keep an unlocked vault in sync with the keys entered this session
+  const storeSessionKey = (keyRef: string, apiKey: string) => {
+    const updated = { ...sessionKeys, [keyRef]: apiKey };
+    setSessionKeys(updated);
+    keyVault.save(updated).catch(error => console.error('Error saving key vault:', error));
+  };
+
+  const handleProfileCreate = (draft: Omit<ProviderProfile, 'id' | 'keyRef'>, apiKey: string) => {
+    const profile: ProviderProfile = {
+      ...draft,
+      id: `profile-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      keyRef: getKeyRef(draft)
+    };
+
+    setProfiles([...profiles, profile]);
+    if (apiKey) {
+      storeSessionKey(profile.keyRef, apiKey);
+    }
+    selectProfile(profile.id);
+    setIsAddingProfile(false);
+  };
+
+  const handleDeleteProfile = (profileId: string) => {
+    const remaining = profiles.filter(profile => profile.id !== profileId);
+    setProfiles(remaining);
+    if (profileId === activeProfileId || profileId === activeProfile?.id) {
+      setActiveProfileId(remaining[0]?.id || null);
+      if (activeConversation) {
+        conversationStore.update(activeConversation.id, conversation => ({ ...conversation, profileId: remaining[0]?.id || null }));
+      }
+    }
+  };
+
+  const handleApiKeySubmit = (apiKey: string) => {
+    if (activeProfile) {
+      storeSessionKey(activeProfile.keyRef, apiKey);
+    }
+  };
+
+  const handleVaultUnlock = async (passphrase: string) => {
+    setSessionKeys(await keyVault.unlock(passphrase, sessionKeys));
+  };
+
+  // Locking also drops the in-memory keys, so they have to be unlocked again
+  const handleVaultLock = () => {
+    keyVault.lock();
+    setSessionKeys({});
+  };
+
+  const handleVaultExport = () => {
+    const blob = new Blob([JSON.stringify(keyVault.vault, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = '11ku7-key-vault.json';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  let screen: React.ReactNode;
+  const apiKey = activeProfile ? sessionKeys[activeProfile.keyRef] : undefined;
+
+  if (!conversationStore.isLoaded || !activeConversation) {
+    // Conversations come from IndexedDB, so the profile they use isn't known until they're loaded
+    screen = (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <p className="text-green-300 text-sm font-mono animate-pulse">Loading conversations...</p>
+      </div>
+    );
+  } else if (!activeProfile || isAddingProfile) {
+    screen = (
+      <ProviderSelection
+        onProfileCreate={handleProfileCreate}
+        onCancel={activeProfile ? () => setIsAddingProfile(false) : undefined}
+        showSplash={profiles.length === 0}
+      />
+    );
+  } else if (activeProfile.requiresApiKey && !apiKey) {
+    screen = (
+      <ApiKeyPrompt
+        profile={activeProfile}
+        profiles={profiles}
+        vaultLocked={keyVault.status === 'locked'}
+        onSubmit={handleApiKeySubmit}
+        onUnlockVault={handleVaultUnlock}
+        onSelectProfile={selectProfile}
+        onAddProfile={() => setIsAddingProfile(true)}
+      />
+    );
+  } else {
+    screen = (
+      <MainInterface
+        initialState={{
+          provider: activeProfile.provider,
+          model: activeProfile.model,
+          apiKey: apiKey || '',
+          baseURL: activeProfile.baseURL
+        }}
+        activeProfile={activeProfile}
+        profiles={profiles}
+        getProfileApiKey={(profile) => sessionKeys[profile.keyRef]}
+        vaultStatus={keyVault.status}
+        conversation={activeConversation}
+        conversations={conversationStore.conversations}
+        storageUsage={conversationStore.storageUsage}
+        onUpdateConversation={conversationStore.update}
+        onSelectConversation={conversationStore.select}
+        onCreateConversation={() => conversationStore.create(activeProfile?.id ?? activeProfileId)}
+        onImportConversation={(seed) => conversationStore.importConversation(seed, activeProfile?.id ?? activeProfileId)}
+        onRenameConversation={conversationStore.rename}
+        onDuplicateConversation={conversationStore.duplicate}
+        onArchiveConversation={conversationStore.setArchived}
+        onDeleteConversation={conversationStore.remove}
+        onSelectProfile={selectProfile}
+        onAddProfile={() => setIsAddingProfile(true)}
+        onDeleteProfile={handleDeleteProfile}
+        onOpenVault={() => setIsVaultOpen(true)}
+      />
+    );
   }
 
   return (
-    <MainInterface 
-      initialState={appState}
-      onChangeProvider={handleChangeProvider}
-    />
+    <>
+      {screen}
+      {isVaultOpen && (
+        <KeyVaultPanel
+          status={keyVault.status}
+          keyRefs={Object.keys(sessionKeys)}
+          onCreate={(passphrase) => keyVault.create(passphrase, sessionKeys)}
+          onUnlock={handleVaultUnlock}
+          onLock={handleVaultLock}
+          onForget={keyVault.forget}
+          onExport={handleVaultExport}
+          onImport={keyVault.importVault}
+          onClose={() => setIsVaultOpen(false)}
+        />
+      )}
+    </>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
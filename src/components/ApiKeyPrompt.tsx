@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { Key, Check, Plus, Terminal, Lock, Loader2 } from 'lucide-react';
+import { ProviderProfile } from '../types';
+import { getProviderAdapter } from '../providers';
+
+interface ApiKeyPromptProps {
+  profile: ProviderProfile;
+  profiles: ProviderProfile[];
+  vaultLocked: boolean;
+  onSubmit: (apiKey: string) => void;
+  onUnlockVault: (passphrase: string) => Promise<void>;
+  onSelectProfile: (profileId: string) => void;
+  onAddProfile: () => void;
+}
+
+const ApiKeyPrompt: React.FC<ApiKeyPromptProps> = ({
+  profile,
+  profiles,
+  vaultLocked,
+  onSubmit,
+  onUnlockVault,
+  onSelectProfile,
+  onAddProfile
+}) => {
+  const [apiKey, setApiKey] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [vaultError, setVaultError] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const otherProfiles = profiles.filter(candidate => candidate.id !== profile.id);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (apiKey.trim()) {
+      onSubmit(apiKey.trim());
+    }
+  };
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+
+    setVaultError('');
+    setIsUnlocking(true);
+    try {
+      await onUnlockVault(passphrase);
+    } catch (error) {
+      setVaultError(error instanceof Error ? error.message : 'Unknown error');
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-black via-gray-900 to-black flex items-center justify-center p-4">
+      <div className="max-w-md w-full">
+        <div className="bg-black/60 backdrop-blur-sm border border-green-500/20 rounded-lg p-6 shadow-2xl">
+          <div className="text-center mb-6">
+            <Terminal className="w-12 h-12 text-green-400 mx-auto mb-2" />
+            <h1 className="text-2xl font-bold text-green-400 font-mono">11ku7 AI Chat</h1>
+          </div>
+
+          {vaultLocked && (
+            <form onSubmit={handleUnlock} className="space-y-3 mb-6 pb-6 border-b border-green-500/20">
+              <div className="flex items-center space-x-2">
+                <Lock className="w-4 h-4 text-green-400" />
+                <p className="text-gray-300 font-mono text-sm">Unlock your key vault:</p>
+              </div>
+              {vaultError && (
+                <p className="text-red-400 text-xs font-mono">{vaultError}</p>
+              )}
+              <div className="flex space-x-2">
+                <input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  placeholder="Vault passphrase"
+                  className="flex-1 p-3 bg-gray-900/50 border border-gray-700 focus:border-green-500 rounded-lg text-green-400 font-mono text-sm focus:outline-none focus:ring-1 focus:ring-green-500/50"
+                  autoFocus
+                />
+                <button
+                  type="submit"
+                  disabled={!passphrase || isUnlocking}
+                  className="px-4 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors duration-200"
+                  title="Unlock"
+                >
+                  {isUnlocking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                </button>
+              </div>
+            </form>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="flex items-center space-x-2">
+              <Key className="w-4 h-4 text-green-400" />
+              <p className="text-gray-300 font-mono text-sm">
+                Enter API key for <span className="text-green-400">{profile.name}</span>:
+              </p>
+            </div>
+
+            <div className="p-3 bg-blue-500/10 border border-blue-500/20 rounded-lg">
+              <div className="text-blue-400 font-mono text-xs">
+                {getProviderAdapter(profile.provider).label} · {profile.model}
+              </div>
+              {profile.baseURL && (
+                <div className="text-gray-400 text-xs mt-1">{profile.baseURL}</div>
+              )}
+              <div className="text-gray-500 text-xs mt-1">
+                {vaultLocked
+                  ? 'Keys entered here are added to the vault once it is unlocked'
+                  : 'Keys are kept in memory for this session unless you create a key vault'}
+              </div>
+            </div>
+
+            <input
+              type="password"
+              value={apiKey}
+              onChange={(e) => setApiKey(e.target.value)}
+              placeholder="Enter your API key..."
+              className="w-full p-3 bg-gray-900/50 border border-gray-700 focus:border-green-500 rounded-lg text-green-400 font-mono text-sm focus:outline-none focus:ring-1 focus:ring-green-500/50"
+              autoFocus={!vaultLocked}
+            />
+            <button
+              type="submit"
+              disabled={!apiKey.trim()}
+              className="w-full p-3 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors duration-200 flex items-center justify-center space-x-2 font-mono text-sm"
+            >
+              <Check className="w-4 h-4" />
+              <span>Continue</span>
+            </button>
+          </form>
+
+          <div className="mt-6 pt-4 border-t border-green-500/20 space-y-2">
+            {otherProfiles.length > 0 && (
+              <p className="text-gray-400 font-mono text-xs">Or switch to another profile:</p>
+            )}
+            {otherProfiles.map(candidate => (
+              <button
+                key={candidate.id}
+                onClick={() => onSelectProfile(candidate.id)}
+                className="w-full p-2 bg-gray-800/50 hover:bg-green-500/10 border border-gray-700 hover:border-green-500/50 rounded-lg transition-all duration-200 text-left"
+              >
+                <span className="text-blue-400 font-mono text-xs">{candidate.name}</span>
+              </button>
+            ))}
+            <button
+              onClick={onAddProfile}
+              className="w-full p-2 text-gray-400 hover:text-green-400 transition-colors duration-200 font-mono text-xs flex items-center justify-center space-x-1"
+            >
+              <Plus className="w-3 h-3" />
+              <span>New profile</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ApiKeyPrompt;
@@ -1,26 +1,75 @@
 import React, { useEffect, useRef } from 'react';
-import { marked } from 'marked';
-import { ChatMessage } from '../types';
-import { Terminal, User, Bot, Copy, Check, Paperclip, Image, FileText, File, Eye } from 'lucide-react';
+import { ChatMessage, ContextUsage, ProviderProfile, RegenerateOptions, SearchHighlight, VersionInfo } from '../types';
+import { ConversationSearch, MARK_CLASSNAME } from '../utils/conversationSearch';
+import { ConversationBuilder } from '../utils/conversationBuilder';
+import { MarkdownRenderer } from '../utils/markdownRenderer';
+import { CodeFences } from '../utils/codeFences';
+import { DiagramRenderer } from '../utils/diagramRenderer';
+import CodeBlockCard from './CodeBlockCard';
+import DiagramCard from './DiagramCard';
+import ContextUsageMeter from './ContextUsageMeter';
+import ErrorCard from './ErrorCard';
+import VersionSwitcher from './VersionSwitcher';
+import RegenerateMenu from './RegenerateMenu';
+import { Terminal, Bot, Check, Paperclip, Image, FileText, File, Eye, Pencil, X, Pin, FileCode } from 'lucide-react';
 
 interface ChatAreaProps {
   messages: ChatMessage[];
   isTyping: boolean;
+  streamingMessage?: ChatMessage | null;
+  contextUsage?: ContextUsage;
   onCopyCode: (code: string) => void;
+  onRetry?: (messageId: string) => void;
+  versionInfo?: Record<string, VersionInfo>; // Messages with alternative versions, by id
+  onSwitchVersion?: (messageId: string, offset: number) => void;
+  onEditMessage?: (messageId: string, content: string) => void;
+  onRegenerate?: (messageId: string, options: RegenerateOptions) => void;
+  regenerateProfiles?: ProviderProfile[];
+  activeProfileId?: string;
+  currentTemperature?: number;
+  highlight?: SearchHighlight | null; // Search result to scroll to and mark
+  onTogglePin?: (messageId: string, attachmentId?: string) => void;
 }
 
-const ChatArea: React.FC<ChatAreaProps> = ({ messages, isTyping, onCopyCode }) => {
+const ChatArea: React.FC<ChatAreaProps> = ({
+  messages,
+  isTyping,
+  streamingMessage,
+  contextUsage,
+  onCopyCode,
+  onRetry,
+  versionInfo = {},
+  onSwitchVersion,
+  onEditMessage,
+  onRegenerate,
+  regenerateProfiles = [],
+  activeProfileId,
+  currentTemperature,
+  highlight,
+  onTogglePin
+}) => {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const [copiedText, setCopiedText] = React.useState<string>('');
   const [expandedPages, setExpandedPages] = React.useState<Set<string>>(new Set());
+  const [editingMessageId, setEditingMessageId] = React.useState<string | null>(null);
+  const [editingContent, setEditingContent] = React.useState('');
+  // Messages shown as their source text instead of rendered markdown
+  const [rawMessageIds, setRawMessageIds] = React.useState<Set<string>>(new Set());
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
+  // A search result keeps its place until the highlight is cleared
   useEffect(() => {
-    scrollToBottom();
-  }, [messages, isTyping]);
+    if (!highlight) scrollToBottom();
+  }, [messages, isTyping, streamingMessage?.content, highlight]);
+
+  useEffect(() => {
+    if (highlight) {
+      document.getElementById(`message-${highlight.messageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [highlight]);
 
   const handleCopy = async (code: string) => {
     await navigator.clipboard.writeText(code);
@@ -29,6 +78,30 @@ const ChatArea: React.FC<ChatAreaProps> = ({ messages, isTyping, onCopyCode }) =
     setTimeout(() => setCopiedText(''), 2000);
   };
 
+  // Rendered equations carry their TeX source (see MathRenderer); clicking one copies it
+  const handleMathClick = (event: React.MouseEvent<HTMLElement>) => {
+    const math = (event.target as HTMLElement).closest<HTMLElement>('[data-latex]');
+    if (!math?.dataset.latex || window.getSelection()?.toString()) return;
+
+    handleCopy(math.dataset.latex);
+    // The markup comes from dangerouslySetInnerHTML, so the feedback is set on the element directly
+    math.classList.add('math-copied');
+    setTimeout(() => math.classList.remove('math-copied'), 1000);
+  };
+
+  const startEditing = (message: ChatMessage) => {
+    setEditingMessageId(message.id);
+    setEditingContent(message.content);
+  };
+
+  // Sending the edit starts a new branch from this message; the old one stays reachable through the version switcher
+  const submitEdit = () => {
+    if (editingMessageId && onEditMessage && editingContent.trim()) {
+      onEditMessage(editingMessageId, editingContent.trim());
+    }
+    setEditingMessageId(null);
+  };
+
   const togglePageExpansion = (pageId: string) => {
     setExpandedPages(prev => {
       const newSet = new Set(prev);
@@ -41,9 +114,35 @@ const ChatArea: React.FC<ChatAreaProps> = ({ messages, isTyping, onCopyCode }) =
     });
   };
 
-  // Function to remove code blocks from markdown content to avoid duplication
-  const removeCodeBlocks = (content: string): string => {
-    return content.replace(/```[\s\S]*?```/g, '');
+  const toggleRaw = (messageId: string) => {
+    setRawMessageIds(prev => {
+      const newSet = new Set(prev);
+      if (newSet.has(messageId)) {
+        newSet.delete(messageId);
+      } else {
+        newSet.add(messageId);
+      }
+      return newSet;
+    });
+  };
+
+  // Marks search matches in text React renders itself (extracted page text)
+  const highlightText = (text: string, message: ChatMessage): React.ReactNode => {
+    if (highlight?.messageId !== message.id || !highlight.query) return text;
+
+    const lowerText = text.toLowerCase();
+    const needle = highlight.query.toLowerCase();
+    const parts: React.ReactNode[] = [];
+    let start = 0;
+    let index = lowerText.indexOf(needle);
+    while (index !== -1) {
+      parts.push(text.substring(start, index));
+      parts.push(<mark key={index} className={MARK_CLASSNAME}>{text.substring(index, index + needle.length)}</mark>);
+      start = index + needle.length;
+      index = lowerText.indexOf(needle, start);
+    }
+    parts.push(text.substring(start));
+    return parts;
   };
 
   const formatFileSize = (bytes: number): string => {
@@ -69,24 +168,28 @@ const ChatArea: React.FC<ChatAreaProps> = ({ messages, isTyping, onCopyCode }) =
     return 'Document';
   };
 
-  const renderMessage = (message: ChatMessage) => {
+  const renderMessage = (message: ChatMessage, isStreaming = false) => {
     const isUser = message.role === 'user';
     const isSystem = message.role === 'system';
     
-    // For user messages, show the content as-is without processing
-    // For AI/system messages, remove code blocks to avoid duplication
-    const contentToProcess = isUser ? message.content : removeCodeBlocks(message.content);
-    
-    // Configure marked for syntax highlighting
-    const htmlContent = marked(contentToProcess, {
-      highlight: (code, lang) => {
-        // Simple syntax highlighting for demo
-        return `<code class="language-${lang || 'text'}">${code}</code>`;
-      }
-    });
+    const isHighlighted = highlight?.messageId === message.id;
+    // Only what is actually sent to the model can be pinned
+    const canPin = !!onTogglePin && !isStreaming && ConversationBuilder.isConversationMessage(message);
+    const isRaw = rawMessageIds.has(message.id);
+    const renderHTML = (content: string) => {
+      const html = MarkdownRenderer.render(content);
+      return isHighlighted ? ConversationSearch.highlightHTML(html, highlight.query) : html;
+    };
+    // User messages render as one piece; AI/system replies get code cards where their fences are,
+    // including the still-open fence while streaming
+    const segments = isUser ? [] : CodeFences.split(message.content);
 
     return (
-      <div key={message.id} className="mb-6">
+      <div
+        key={message.id}
+        id={isStreaming ? undefined : `message-${message.id}`}
+        className={`mb-6 rounded-2xl transition-shadow duration-500 ${isHighlighted ? 'ring-2 ring-yellow-400/50 ring-offset-4 ring-offset-black' : ''}`}
+      >
         {/* User Message */}
         {isUser && (
           <div className="flex justify-end">
@@ -122,6 +225,15 @@ const ChatArea: React.FC<ChatAreaProps> = ({ messages, isTyping, onCopyCode }) =
                             {formatFileSize(attachment.size)} • {getFileDescription(attachment)}
                           </div>
                         </div>
+                        {canPin && (
+                          <button
+                            onClick={() => onTogglePin(message.id, attachment.id)}
+                            className={`p-1 rounded hover:bg-white/10 transition-colors duration-200 ${attachment.pinned ? 'text-yellow-300' : 'text-blue-200'}`}
+                            title={attachment.pinned ? 'Unpin attachment' : 'Pin attachment - always keep it in context'}
+                          >
+                            <Pin className={`w-3 h-3 ${attachment.pinned ? 'fill-current' : ''}`} />
+                          </button>
+                        )}
                       </div>
 
                       {/* PDF Pages Preview */}
@@ -133,7 +245,9 @@ const ChatArea: React.FC<ChatAreaProps> = ({ messages, isTyping, onCopyCode }) =
                           <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 max-h-64 overflow-y-auto">
                             {attachment.documentPages.map((page) => {
                               const pageId = `${attachment.id}-page-${page.pageNumber}`;
-                              const isExpanded = expandedPages.has(pageId);
+                              // Pages whose text matched a search start out open; clicking toggles them either way
+                              const matchesSearch = isHighlighted && !!highlight.query && !!page.textContent?.toLowerCase().includes(highlight.query.toLowerCase());
+                              const isExpanded = expandedPages.has(pageId) !== matchesSearch;
                               
                               return (
                                 <div key={pageId} className="relative">
@@ -159,8 +273,8 @@ const ChatArea: React.FC<ChatAreaProps> = ({ messages, isTyping, onCopyCode }) =
                                   {isExpanded && page.textContent && (
                                     <div className="mt-2 p-2 bg-blue-900/50 border border-blue-600 rounded text-xs text-blue-100 font-mono max-h-32 overflow-y-auto">
                                       <div className="text-blue-200 mb-1">Extracted Text:</div>
-                                      {page.textContent.substring(0, 200)}
-                                      {page.textContent.length > 200 && '...'}
+                                      {isHighlighted ? highlightText(page.textContent, message) : page.textContent.substring(0, 200)}
+                                      {!isHighlighted && page.textContent.length > 200 && '...'}
                                     </div>
                                   )}
                                 </div>
@@ -175,13 +289,88 @@ const ChatArea: React.FC<ChatAreaProps> = ({ messages, isTyping, onCopyCode }) =
               )}
 
               {/* Message Content */}
-              <div 
-                className="prose prose-invert prose-sm max-w-none font-mono text-sm leading-relaxed"
-                dangerouslySetInnerHTML={{ __html: htmlContent }}
-              />
+              {editingMessageId === message.id ? (
+                <div className="space-y-2">
+                  <textarea
+                    value={editingContent}
+                    onChange={(e) => setEditingContent(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && !e.shiftKey) {
+                        e.preventDefault();
+                        submitEdit();
+                      }
+                      if (e.key === 'Escape') setEditingMessageId(null);
+                    }}
+                    className="w-full min-w-[16rem] p-2 bg-blue-800/60 border border-blue-400/50 focus:border-blue-200 rounded text-white font-mono text-sm resize-y focus:outline-none"
+                    rows={Math.min(10, editingContent.split('\n').length + 1)}
+                    autoFocus
+                  />
+                  <div className="flex justify-end space-x-2 text-xs font-mono">
+                    <button
+                      onClick={() => setEditingMessageId(null)}
+                      className="flex items-center px-2 py-1 text-blue-100 hover:text-white transition-colors duration-200"
+                    >
+                      <X className="w-3 h-3 mr-1" />
+                      Cancel
+                    </button>
+                    <button
+                      onClick={submitEdit}
+                      disabled={!editingContent.trim()}
+                      className="flex items-center px-2 py-1 bg-blue-800 hover:bg-blue-900 disabled:opacity-50 rounded text-white transition-colors duration-200"
+                    >
+                      <Check className="w-3 h-3 mr-1" />
+                      Send
+                    </button>
+                  </div>
+                </div>
+              ) : isRaw ? (
+                <pre className="whitespace-pre-wrap break-words font-mono text-sm leading-relaxed">{message.content}</pre>
+              ) : (
+                <div 
+                  className="chat-markdown prose prose-invert prose-sm max-w-none font-mono text-sm leading-relaxed"
+                  onClick={handleMathClick}
+                  dangerouslySetInnerHTML={{ __html: renderHTML(message.content) }}
+                />
+              )}
               
-              <div className="text-xs text-blue-200 mt-2 text-right opacity-70">
-                {message.timestamp.toLocaleTimeString()}
+              <div className="flex items-center justify-end space-x-2 text-xs text-blue-200 mt-2">
+                {versionInfo[message.id] && onSwitchVersion && (
+                  <VersionSwitcher
+                    version={versionInfo[message.id]}
+                    disabled={isTyping}
+                    onSwitch={(offset) => onSwitchVersion(message.id, offset)}
+                    className="text-blue-100"
+                  />
+                )}
+                {canPin && (
+                  <button
+                    onClick={() => onTogglePin(message.id)}
+                    className={`p-0.5 rounded hover:bg-white/10 transition-colors duration-200 ${message.pinned ? 'text-yellow-300' : ''}`}
+                    title={message.pinned ? 'Unpin message' : 'Pin message - always keep it in context'}
+                  >
+                    <Pin className={`w-3 h-3 ${message.pinned ? 'fill-current' : ''}`} />
+                  </button>
+                )}
+                {!isStreaming && editingMessageId !== message.id && (
+                  <button
+                    onClick={() => toggleRaw(message.id)}
+                    className={`p-0.5 rounded hover:bg-white/10 transition-colors duration-200 ${isRaw ? 'text-white' : ''}`}
+                    title={isRaw ? 'Show rendered' : 'View raw'}
+                  >
+                    <FileCode className="w-3 h-3" />
+                  </button>
+                )}
+                {/* Commands are run again by typing them, so only real messages can be edited */}
+                {onEditMessage && !isStreaming && !isTyping && editingMessageId !== message.id && !message.content.startsWith('/') && (
+                  <button
+                    onClick={() => startEditing(message)}
+                    className="p-0.5 rounded hover:bg-white/10 transition-colors duration-200"
+                    title="Edit and resend"
+                  >
+                    <Pencil className="w-3 h-3" />
+                  </button>
+                )}
+                <span className="opacity-70">{message.timestamp.toLocaleTimeString()}</span>
               </div>
             </div>
           </div>
@@ -206,8 +395,52 @@ const ChatArea: React.FC<ChatAreaProps> = ({ messages, isTyping, onCopyCode }) =
                   {isSystem ? 'System' : 'AI Assistant'}
                 </span>
                 <span className="text-xs text-gray-500">
-                  {message.timestamp.toLocaleTimeString()}
+                  {isStreaming ? 'typing...' : message.timestamp.toLocaleTimeString()}
                 </span>
+                {message.stopped && (
+                  <span className="text-xs font-mono text-red-400 bg-red-500/10 border border-red-500/20 px-1.5 py-0.5 rounded">
+                    stopped
+                  </span>
+                )}
+                {!isSystem && message.model && (
+                  <span className="text-xs font-mono text-gray-500 truncate max-w-[12rem]" title={message.provider ? `${message.provider} · ${message.model}` : message.model}>
+                    {message.model}
+                  </span>
+                )}
+                {versionInfo[message.id] && onSwitchVersion && (
+                  <VersionSwitcher
+                    version={versionInfo[message.id]}
+                    disabled={isTyping}
+                    onSwitch={(offset) => onSwitchVersion(message.id, offset)}
+                  />
+                )}
+                {canPin && (
+                  <button
+                    onClick={() => onTogglePin(message.id)}
+                    className={`p-1 transition-colors duration-200 ${message.pinned ? 'text-yellow-400' : 'text-gray-500 hover:text-green-400'}`}
+                    title={message.pinned ? 'Unpin message' : 'Pin message - always keep it in context'}
+                  >
+                    <Pin className={`w-3 h-3 ${message.pinned ? 'fill-current' : ''}`} />
+                  </button>
+                )}
+                {!isStreaming && (
+                  <button
+                    onClick={() => toggleRaw(message.id)}
+                    className={`p-1 transition-colors duration-200 ${isRaw ? 'text-green-400' : 'text-gray-500 hover:text-green-400'}`}
+                    title={isRaw ? 'Show rendered' : 'View raw'}
+                  >
+                    <FileCode className="w-3 h-3" />
+                  </button>
+                )}
+                {!isSystem && !isStreaming && onRegenerate && activeProfileId && (
+                  <RegenerateMenu
+                    profiles={regenerateProfiles}
+                    activeProfileId={activeProfileId}
+                    currentTemperature={currentTemperature}
+                    disabled={isTyping}
+                    onRegenerate={(options) => onRegenerate(message.id, options)}
+                  />
+                )}
               </div>
 
               {/* Message Bubble */}
@@ -216,39 +449,51 @@ const ChatArea: React.FC<ChatAreaProps> = ({ messages, isTyping, onCopyCode }) =
                   ? 'bg-yellow-500/10 border border-yellow-500/20'
                   : 'bg-gray-800/80 border border-gray-700'
               }`}>
-                {/* Message Content */}
-                <div 
-                  className={`prose prose-invert prose-sm max-w-none font-mono text-sm leading-relaxed ${
+                {/* Message Content - failed requests only have content if part of the reply arrived */}
+                {(!message.error || message.content) && (isRaw ? (
+                  <pre className={`whitespace-pre-wrap break-words font-mono text-sm leading-relaxed ${
                     isSystem ? 'text-yellow-100' : 'text-gray-100'
-                  }`}
-                  dangerouslySetInnerHTML={{ __html: htmlContent }}
-                />
-                
-                {/* Code blocks for AI/system messages */}
-                {message.codeBlocks && message.codeBlocks.length > 0 && (
-                  <div className="mt-4 space-y-3">
-                    {message.codeBlocks.map((block, index) => (
-                      <div key={index} className="relative">
-                        <div className="bg-black/40 rounded-lg border border-gray-600 overflow-hidden">
-                          <div className="flex items-center justify-between px-3 py-2 bg-gray-900/80 border-b border-gray-600">
-                            <span className="text-xs text-gray-400 font-mono">{block.language}</span>
-                            <button
-                              onClick={() => handleCopy(block.code)}
-                              className="text-gray-400 hover:text-green-400 transition-colors duration-200"
-                            >
-                              {copiedText === block.code ? (
-                                <Check className="w-4 h-4" />
-                              ) : (
-                                <Copy className="w-4 h-4" />
-                              )}
-                            </button>
-                          </div>
-                          <pre className="p-3 overflow-x-auto text-sm">
-                            <code className="text-green-400">{block.code}</code>
-                          </pre>
-                        </div>
-                      </div>
-                    ))}
+                  }`}>{message.content}</pre>
+                ) : (
+                  <div>
+                    {segments.map((segment, index) => {
+                      if (segment.type === 'markdown') {
+                        return (
+                          <div
+                            key={index}
+                            className={`chat-markdown prose prose-invert prose-sm max-w-none font-mono text-sm leading-relaxed ${
+                              isSystem ? 'text-yellow-100' : 'text-gray-100'
+                            }`}
+                            onClick={handleMathClick}
+                            dangerouslySetInnerHTML={{ __html: renderHTML(segment.text) }}
+                          />
+                        );
+                      }
+
+                      const cardProps = {
+                        block: segment.block,
+                        copied: copiedText === segment.block.code,
+                        onCopy: handleCopy,
+                        highlightQuery: isHighlighted ? highlight.query : undefined
+                      };
+                      // Diagrams are drawn once the reply is complete; half-streamed source would only fail to parse
+                      const diagramKind = isStreaming ? null : DiagramRenderer.getKind(segment.block.language);
+                      return diagramKind
+                        ? <DiagramCard key={index} kind={diagramKind} {...cardProps} />
+                        : <CodeBlockCard key={index} {...cardProps} />;
+                    })}
+                  </div>
+                ))}
+
+                {/* Error card - retrying is only offered on the latest message */}
+                {message.error && (
+                  <div className={message.content ? 'mt-3' : ''}>
+                    <ErrorCard
+                      error={message.error}
+                      onRetry={onRetry && !isTyping && messages[messages.length - 1]?.id === message.id
+                        ? () => onRetry(message.id)
+                        : undefined}
+                    />
                   </div>
                 )}
               </div>
@@ -261,11 +506,12 @@ const ChatArea: React.FC<ChatAreaProps> = ({ messages, isTyping, onCopyCode }) =
 
   return (
     <div className="bg-black/40 backdrop-blur-sm border border-green-500/20 rounded-lg h-full flex flex-col">
-      <div className="border-b border-green-500/20 p-3 flex-shrink-0">
+      <div className="border-b border-green-500/20 p-3 flex-shrink-0 flex items-center justify-between">
         <h3 className="text-green-400 font-mono text-sm font-semibold flex items-center">
           <Terminal className="w-4 h-4 mr-2" />
           AI Chat
         </h3>
+        {contextUsage && <ContextUsageMeter usage={contextUsage} />}
       </div>
       
       <div className="flex-1 overflow-y-auto p-4 space-y-2 min-h-0">
@@ -276,10 +522,12 @@ const ChatArea: React.FC<ChatAreaProps> = ({ messages, isTyping, onCopyCode }) =
             <p className="text-xs mt-1">Type a message, use commands like /help, or attach files</p>
           </div>
         ) : (
-          messages.map(renderMessage)
+          messages.map(message => renderMessage(message))
         )}
         
-        {isTyping && (
+        {isTyping && streamingMessage && renderMessage(streamingMessage, true)}
+        
+        {isTyping && !streamingMessage && (
           <div className="flex justify-start">
             <div className="max-w-[85%]">
               {/* Avatar and Name */}
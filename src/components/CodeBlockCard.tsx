@@ -0,0 +1,52 @@
+import React from 'react';
+import { Copy, Check } from 'lucide-react';
+import { CodeBlock } from '../types';
+import { SyntaxHighlighter } from '../utils/syntaxHighlighter';
+import { ConversationSearch } from '../utils/conversationSearch';
+
+interface CodeBlockCardProps {
+  block: CodeBlock;
+  copied: boolean;
+  onCopy: (code: string) => void;
+  highlightQuery?: string; // Search matches to mark in the code
+  actions?: React.ReactNode; // Extra header buttons, next to copy
+  children?: React.ReactNode; // Shown instead of the code, e.g. a rendered diagram
+}
+
+const CodeBlockCard: React.FC<CodeBlockCardProps> = ({ block, copied, onCopy, highlightQuery, actions, children }) => {
+  const highlighted = SyntaxHighlighter.highlight(block.code, block.language);
+  const codeHTML = highlightQuery ? ConversationSearch.highlightHTML(highlighted.html, highlightQuery) : highlighted.html;
+  const lineNumbers = block.code.split('\n').map((_, index) => index + 1).join('\n');
+
+  return (
+    <div className="my-3 bg-black/40 rounded-lg border border-gray-600 overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-2 bg-gray-900/80 border-b border-gray-600">
+        <span className="flex items-center space-x-2 min-w-0 text-xs font-mono">
+          {block.title && <span className="text-gray-200 truncate">{block.title}</span>}
+          <span className="text-gray-400 flex-shrink-0">{highlighted.language || 'text'}</span>
+        </span>
+        <div className="flex items-center space-x-2 flex-shrink-0">
+          {actions}
+          <button
+            onClick={() => onCopy(block.code)}
+            className="text-gray-400 hover:text-green-400 transition-colors duration-200"
+            title="Copy code"
+          >
+            {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+          </button>
+        </div>
+      </div>
+      {children ?? (
+        // Numbers sit in their own column so selecting the code doesn't copy them
+        <div className="flex text-sm">
+          <pre aria-hidden="true" className="py-3 pl-3 pr-2 text-right text-gray-600 select-none border-r border-gray-700/50">{lineNumbers}</pre>
+          <pre className="flex-1 min-w-0 p-3 overflow-x-auto">
+            <code className="hljs" dangerouslySetInnerHTML={{ __html: codeHTML }} />
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CodeBlockCard;
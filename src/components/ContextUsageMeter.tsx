@@ -0,0 +1,45 @@
+import React from 'react';
+import { Gauge } from 'lucide-react';
+import { ContextUsage } from '../types';
+
+interface ContextUsageMeterProps {
+  usage: ContextUsage;
+}
+
+const formatTokens = (tokens: number): string => {
+  if (tokens < 1000) return `${tokens}`;
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(1)}k`;
+  return `${(tokens / 1_000_000).toFixed(2)}M`;
+};
+
+const ContextUsageMeter: React.FC<ContextUsageMeterProps> = ({ usage }) => {
+  const percent = Math.min(100, (usage.usedTokens / usage.limitTokens) * 100);
+  const barColor = percent > 90 ? 'bg-red-500' : percent > 70 ? 'bg-yellow-500' : 'bg-green-500';
+  // Pinned items take the start of the bar, in their own color
+  const pinnedPercent = Math.min(percent, (usage.pinnedTokens / usage.limitTokens) * 100);
+
+  return (
+    <div
+      className="flex items-center space-x-2 text-xs font-mono text-gray-400"
+      title={`~${usage.usedTokens.toLocaleString()} of ${usage.limitTokens.toLocaleString()} input tokens${
+        usage.reservedTokens > 0 ? ` (${usage.reservedTokens.toLocaleString()} more are kept free for the reply)` : ''
+      }. ${usage.includedMessages} message(s) in context${
+        usage.omittedMessages > 0 ? `, ${usage.omittedMessages} older message(s) summarized to fit` : ''
+      }.${usage.pinnedItems > 0 ? ` ${usage.pinnedItems} pinned item(s) always included: ~${usage.pinnedTokens.toLocaleString()} tokens.` : ''}`}
+    >
+      <Gauge className="w-3 h-3" />
+      <div className="w-20 h-1.5 bg-gray-700 rounded-full overflow-hidden flex">
+        <div className="h-full bg-yellow-300 transition-all duration-200" style={{ width: `${pinnedPercent}%` }} />
+        <div className={`h-full ${barColor} transition-all duration-200`} style={{ width: `${percent - pinnedPercent}%` }} />
+      </div>
+      <span>
+        {formatTokens(usage.usedTokens)} / {formatTokens(usage.limitTokens)}
+      </span>
+      {usage.omittedMessages > 0 && (
+        <span className="text-yellow-400">(-{usage.omittedMessages} msgs)</span>
+      )}
+    </div>
+  );
+};
+
+export default ContextUsageMeter;
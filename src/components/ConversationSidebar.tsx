@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { MessagesSquare, Plus, Pencil, Copy, Archive, ArchiveRestore, Trash2, Check, X, Sparkles, Loader2 } from 'lucide-react';
+import { Conversation, StorageUsage } from '../types';
+import StorageUsageIndicator from './StorageUsageIndicator';
+import { ConversationTree } from '../utils/conversationTree';
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  activeConversationId: string;
+  storageUsage: StorageUsage;
+  onSelect: (conversationId: string) => void;
+  onCreate: () => void;
+  onRename: (conversationId: string, title: string) => void;
+  onRegenerateTitle: (conversationId: string) => void;
+  titlingIds: Set<string>; // Conversations whose title is being generated
+  onDuplicate: (conversationId: string) => void;
+  onArchive: (conversationId: string, archived: boolean) => void;
+  onDelete: (conversationId: string) => void;
+}
+
+const formatUpdatedAt = (date: Date): string => {
+  const today = new Date();
+  if (date.toDateString() === today.toDateString()) {
+    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  }
+  return date.toLocaleDateString();
+};
+
+const ConversationSidebar: React.FC<ConversationSidebarProps> = ({
+  conversations,
+  activeConversationId,
+  storageUsage,
+  onSelect,
+  onCreate,
+  onRename,
+  onRegenerateTitle,
+  titlingIds,
+  onDuplicate,
+  onArchive,
+  onDelete
+}) => {
+  const [showArchived, setShowArchived] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  // Most recently active first
+  const sorted = [...conversations].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  const visible = sorted.filter(conversation => !!conversation.archived === showArchived);
+  const archivedCount = conversations.filter(conversation => conversation.archived).length;
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setEditingTitle(conversation.title);
+  };
+
+  const commitRename = () => {
+    if (editingId) {
+      onRename(editingId, editingTitle);
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (conversation: Conversation) => {
+    if (window.confirm(`Delete "${conversation.title}"? This cannot be undone.`)) {
+      onDelete(conversation.id);
+    }
+  };
+
+  const actionClassName = 'p-1 text-gray-500 hover:text-green-400 transition-colors duration-200';
+
+  return (
+    <div className="bg-black/40 backdrop-blur-sm border border-green-500/20 rounded-lg h-full flex flex-col min-h-0">
+      <div className="border-b border-green-500/20 p-3 flex-shrink-0 flex items-center justify-between">
+        <h3 className="text-green-400 font-mono text-sm font-semibold flex items-center">
+          <MessagesSquare className="w-4 h-4 mr-2" />
+          {showArchived ? 'Archived' : 'Conversations'}
+        </h3>
+        <button
+          onClick={onCreate}
+          className="p-1 text-gray-400 hover:text-green-400 transition-colors duration-200"
+          title="New conversation"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1 min-h-0">
+        {visible.length === 0 && (
+          <div className="text-center text-gray-500 font-mono text-xs mt-4">
+            {showArchived ? 'No archived conversations' : 'No conversations'}
+          </div>
+        )}
+
+        {visible.map(conversation => {
+          const isActive = conversation.id === activeConversationId;
+          const isTitling = titlingIds.has(conversation.id);
+          const messageCount = ConversationTree.getActivePath(conversation.messages, conversation.activeLeafId)
+            .filter(message => message.role !== 'system').length;
+
+          return (
+            <div
+              key={conversation.id}
+              className={`group rounded-lg border transition-all duration-200 ${
+                isActive
+                  ? 'bg-green-500/10 border-green-500/30'
+                  : 'border-transparent hover:bg-gray-800/50 hover:border-gray-700'
+              }`}
+            >
+              {editingId === conversation.id ? (
+                <div className="flex items-center p-2 space-x-1">
+                  <input
+                    value={editingTitle}
+                    onChange={(e) => setEditingTitle(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="flex-1 min-w-0 p-1 bg-gray-900/50 border border-gray-700 focus:border-green-500 rounded text-green-400 font-mono text-xs focus:outline-none"
+                    autoFocus
+                  />
+                  <button onClick={commitRename} className={actionClassName} title="Save">
+                    <Check className="w-3 h-3" />
+                  </button>
+                  <button onClick={() => setEditingId(null)} className={actionClassName} title="Cancel">
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ) : (
+                <>
+                  <button
+                    onClick={() => onSelect(conversation.id)}
+                    className="w-full p-2 text-left"
+                    title={conversation.summary}
+                  >
+                    <div className={`font-mono text-sm truncate ${isActive ? 'text-green-400' : 'text-gray-300'} ${isTitling ? 'animate-pulse' : ''}`}>
+                      {conversation.title}
+                    </div>
+                    {conversation.summary && (
+                      <div className="text-gray-400 text-xs mt-0.5 line-clamp-2">{conversation.summary}</div>
+                    )}
+                    <div className="text-gray-500 font-mono text-xs mt-0.5">
+                      {messageCount} msg · {formatUpdatedAt(conversation.updatedAt)}
+                    </div>
+                  </button>
+                  <div className={`flex items-center justify-end px-1 pb-1 -mt-1 ${isActive ? 'flex' : 'hidden group-hover:flex'}`}>
+                    <button onClick={() => startRename(conversation)} className={actionClassName} title="Rename">
+                      <Pencil className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={() => onRegenerateTitle(conversation.id)}
+                      disabled={isTitling}
+                      className={actionClassName}
+                      title="Generate title and summary"
+                    >
+                      {isTitling ? <Loader2 className="w-3 h-3 animate-spin" /> : <Sparkles className="w-3 h-3" />}
+                    </button>
+                    <button onClick={() => onDuplicate(conversation.id)} className={actionClassName} title="Duplicate">
+                      <Copy className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={() => onArchive(conversation.id, !conversation.archived)}
+                      className={actionClassName}
+                      title={conversation.archived ? 'Unarchive' : 'Archive'}
+                    >
+                      {conversation.archived ? <ArchiveRestore className="w-3 h-3" /> : <Archive className="w-3 h-3" />}
+                    </button>
+                    <button onClick={() => handleDelete(conversation)} className="p-1 text-gray-500 hover:text-red-400 transition-colors duration-200" title="Delete">
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {(archivedCount > 0 || showArchived) && (
+        <button
+          onClick={() => setShowArchived(!showArchived)}
+          className="border-t border-green-500/20 p-2 flex-shrink-0 text-gray-400 hover:text-green-400 font-mono text-xs transition-colors duration-200"
+        >
+          {showArchived ? '← Back to conversations' : `Archived (${archivedCount})`}
+        </button>
+      )}
+
+      {(storageUsage.error || storageUsage.usedBytes !== undefined) && (
+        <div className="border-t border-green-500/20 p-2 flex-shrink-0">
+          <StorageUsageIndicator usage={storageUsage} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConversationSidebar;
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { Code, Workflow, Download, AlertTriangle, Loader2 } from 'lucide-react';
+import { CodeBlock } from '../types';
+import { DIAGRAM_LABELS, DiagramKind, DiagramRenderer } from '../utils/diagramRenderer';
+import CodeBlockCard from './CodeBlockCard';
+
+interface DiagramCardProps {
+  block: CodeBlock;
+  kind: DiagramKind;
+  copied: boolean;
+  onCopy: (code: string) => void;
+  highlightQuery?: string; // Search matches to mark in the source
+}
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const DiagramCard: React.FC<DiagramCardProps> = ({ block, kind, copied, onCopy, highlightQuery }) => {
+  const [svg, setSvg] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  // Search results are found in the source, so they open showing it
+  const [showSource, setShowSource] = useState(!!highlightQuery);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSvg(null);
+    setError(null);
+    DiagramRenderer.render(kind, block.code)
+      .then(result => {
+        if (!cancelled) setSvg(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [kind, block.code]);
+
+  const label = DIAGRAM_LABELS[kind];
+  const baseName = (block.title || `${kind}-diagram`).replace(/\.[^.]+$/, '');
+  const buttonClassName = 'flex items-center text-xs font-mono text-gray-400 hover:text-green-400 transition-colors duration-200';
+
+  const downloadPNG = async () => {
+    if (!svg) return;
+    setExportError(null);
+    try {
+      downloadBlob(await DiagramRenderer.toPNG(svg), `${baseName}.png`);
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : 'The diagram could not be converted to PNG');
+    }
+  };
+
+  const actions = (
+    <>
+      {svg && !showSource && (
+        <>
+          <button onClick={() => downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `${baseName}.svg`)} className={buttonClassName} title="Download SVG">
+            <Download className="w-3 h-3 mr-1" />
+            SVG
+          </button>
+          <button onClick={downloadPNG} className={buttonClassName} title="Download PNG">
+            <Download className="w-3 h-3 mr-1" />
+            PNG
+          </button>
+        </>
+      )}
+      <button
+        onClick={() => setShowSource(!showSource)}
+        className={buttonClassName}
+        title={showSource ? 'Show diagram' : 'Show source'}
+      >
+        {showSource ? <Workflow className="w-4 h-4" /> : <Code className="w-4 h-4" />}
+      </button>
+    </>
+  );
+
+  let body: React.ReactNode;
+  if (error) {
+    body = (
+      <div className="p-3 bg-red-500/10 font-mono text-xs">
+        <div className="flex items-center text-red-400 font-semibold">
+          <AlertTriangle className="w-4 h-4 mr-2" />
+          Invalid {label} syntax - the diagram could not be drawn
+        </div>
+        <pre className="mt-2 max-h-40 overflow-y-auto whitespace-pre-wrap break-words text-red-300">{error}</pre>
+        <button onClick={() => setShowSource(true)} className="mt-2 text-gray-400 hover:text-green-400 underline transition-colors duration-200">
+          Show source
+        </button>
+      </div>
+    );
+  } else if (svg) {
+    body = (
+      <div className="p-3 overflow-x-auto">
+        <img src={DiagramRenderer.toDataURL(svg)} alt={block.title || `${label} diagram`} className="max-w-full h-auto mx-auto" />
+        {exportError && <div className="mt-2 text-red-400 font-mono text-xs">{exportError}</div>}
+      </div>
+    );
+  } else {
+    body = (
+      <div className="flex items-center justify-center p-6 text-gray-400 font-mono text-xs">
+        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+        Rendering {label} diagram...
+      </div>
+    );
+  }
+
+  return (
+    <CodeBlockCard block={block} copied={copied} onCopy={onCopy} highlightQuery={highlightQuery} actions={actions}>
+      {showSource ? undefined : body}
+    </CodeBlockCard>
+  );
+};
+
+export default DiagramCard;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { AlertTriangle, KeyRound, Clock, CreditCard, SearchX, ShieldAlert, WifiOff, ServerCrash, RotateCcw } from 'lucide-react';
+import { AIErrorCategory, ChatMessageError } from '../types';
+
+interface ErrorCardProps {
+  error: ChatMessageError;
+  onRetry?: () => void; // Only passed while retrying makes sense (latest message, nothing generating)
+}
+
+const ERROR_DETAILS: Record<AIErrorCategory, { title: string; hint: string; icon: React.ReactNode }> = {
+  auth: {
+    title: 'Authentication failed',
+    hint: 'The API key was rejected. Check it is correct and active, then re-enter it by creating a new profile or updating the vault.',
+    icon: <KeyRound className="w-4 h-4" />
+  },
+  'rate-limit': {
+    title: 'Rate limited',
+    hint: 'The provider is throttling requests. Automatic retries were exhausted - wait a moment and retry.',
+    icon: <Clock className="w-4 h-4" />
+  },
+  quota: {
+    title: 'Quota exhausted',
+    hint: 'The account is out of credit or over its usage quota. Check billing on the provider dashboard or switch profiles with /model.',
+    icon: <CreditCard className="w-4 h-4" />
+  },
+  'model-not-found': {
+    title: 'Model not found',
+    hint: 'The model name is wrong or not available to this key. Pick another model with /model new.',
+    icon: <SearchX className="w-4 h-4" />
+  },
+  'content-blocked': {
+    title: 'Content blocked',
+    hint: 'The provider\'s safety filters blocked the prompt or the response. Rephrase the request or remove the attachment.',
+    icon: <ShieldAlert className="w-4 h-4" />
+  },
+  network: {
+    title: 'Network or CORS error',
+    hint: 'The request never reached the provider. Check your connection, the base URL, and that the endpoint allows browser requests (CORS).',
+    icon: <WifiOff className="w-4 h-4" />
+  },
+  server: {
+    title: 'Provider unavailable',
+    hint: 'The provider returned a server error or is overloaded. Automatic retries were exhausted - try again shortly.',
+    icon: <ServerCrash className="w-4 h-4" />
+  },
+  unknown: {
+    title: 'Request failed',
+    hint: 'An unexpected error occurred while talking to the provider.',
+    icon: <AlertTriangle className="w-4 h-4" />
+  }
+};
+
+const ErrorCard: React.FC<ErrorCardProps> = ({ error, onRetry }) => {
+  const details = ERROR_DETAILS[error.category] || ERROR_DETAILS.unknown;
+
+  return (
+    <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-2 text-red-400 font-mono text-sm font-semibold">
+          {details.icon}
+          <span>{details.title}</span>
+          {error.status && (
+            <span className="text-xs font-normal text-red-300/70">HTTP {error.status}</span>
+          )}
+        </div>
+        {onRetry && (
+          <button
+            onClick={onRetry}
+            className="flex items-center space-x-1 px-2 py-1 bg-red-500/10 hover:bg-red-500/20 border border-red-500/30 rounded text-red-300 font-mono text-xs transition-colors duration-200"
+          >
+            <RotateCcw className="w-3 h-3" />
+            <span>Retry</span>
+          </button>
+        )}
+      </div>
+      <p className="text-gray-300 text-xs mb-2">{details.hint}</p>
+      <p className="text-gray-500 font-mono text-xs break-words">{error.message}</p>
+    </div>
+  );
+};
+
+export default ErrorCard;
@@ -0,0 +1,63 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Download } from 'lucide-react';
+
+export interface ExportOption {
+  label: string;
+  description: string;
+  onSelect: () => void;
+}
+
+interface ExportMenuProps {
+  options: ExportOption[];
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ options }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`p-2 transition-colors duration-200 ${isOpen ? 'text-green-400' : 'text-gray-400 hover:text-green-400'}`}
+        title="Save Conversation"
+      >
+        <Download className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-1 w-64 bg-gray-900 border border-gray-700 rounded-lg shadow-xl z-20">
+          {options.map(option => (
+            <button
+              key={option.label}
+              onClick={() => {
+                setIsOpen(false);
+                option.onSelect();
+              }}
+              className="w-full p-3 text-left border-b border-gray-700 last:border-b-0 hover:bg-gray-800 transition-colors duration-200"
+            >
+              <div className="text-green-400 font-mono text-sm">{option.label}</div>
+              <div className="text-gray-500 font-mono text-xs mt-1">{option.description}</div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
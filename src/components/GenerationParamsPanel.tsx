@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, ChevronDown, ChevronRight, RotateCcw } from 'lucide-react';
+import { GenerationParams, OperationMode } from '../types';
+
+interface GenerationParamsPanelProps {
+  params: GenerationParams; // Overrides for the current conversation and mode
+  defaults: GenerationParams; // What the provider uses when a field is left empty
+  supportedParams: (keyof GenerationParams)[];
+  providerLabel: string;
+  mode: OperationMode;
+  onChange: (params: GenerationParams) => void;
+}
+
+type NumericParam = Exclude<keyof GenerationParams, 'stopSequences'>;
+
+const NUMERIC_FIELDS: { key: NumericParam; label: string; min: number; max?: number; step: number }[] = [
+  { key: 'temperature', label: 'Temperature', min: 0, max: 2, step: 0.1 },
+  { key: 'topP', label: 'Top P', min: 0, max: 1, step: 0.05 },
+  { key: 'topK', label: 'Top K', min: 1, step: 1 },
+  { key: 'maxOutputTokens', label: 'Max output tokens', min: 1, step: 256 },
+  { key: 'seed', label: 'Seed', min: 0, step: 1 },
+  { key: 'presencePenalty', label: 'Presence penalty', min: -2, max: 2, step: 0.1 },
+  { key: 'frequencyPenalty', label: 'Frequency penalty', min: -2, max: 2, step: 0.1 },
+];
+
+const MODE_LABELS: Record<OperationMode, string> = {
+  none: 'normal',
+  code: 'code',
+  webapp: 'webapp'
+};
+
+const GenerationParamsPanel: React.FC<GenerationParamsPanelProps> = ({
+  params,
+  defaults,
+  supportedParams,
+  providerLabel,
+  mode,
+  onChange
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const overrideCount = Object.values(params).filter(value => value !== undefined).length;
+
+  // Empty inputs clear the override so the default applies again
+  const updateParam = <K extends keyof GenerationParams>(key: K, value: GenerationParams[K] | undefined) => {
+    const updated = { ...params };
+    if (value === undefined) {
+      delete updated[key];
+    } else {
+      updated[key] = value;
+    }
+    onChange(updated);
+  };
+
+  const handleNumberChange = (key: NumericParam, raw: string) => {
+    const value = parseFloat(raw);
+    updateParam(key, raw.trim() === '' || isNaN(value) ? undefined : value);
+  };
+
+  const handleStopSequencesChange = (raw: string) => {
+    // One stop sequence per line; escapes like \n are kept literally
+    const sequences = raw.split('\n').filter(sequence => sequence.length > 0);
+    updateParam('stopSequences', sequences.length > 0 ? sequences : undefined);
+  };
+
+  const inputClassName = (supported: boolean) => `w-full p-2 border rounded-lg font-mono text-xs focus:outline-none focus:ring-1 transition-all duration-200 ${
+    supported
+      ? 'bg-gray-900/50 border-gray-700 focus:border-green-500 text-green-400 focus:ring-green-500/50'
+      : 'bg-gray-900/30 border-gray-800 text-gray-500 cursor-not-allowed'
+  }`;
+
+  return (
+    <div className="bg-black/40 backdrop-blur-sm border border-green-500/20 rounded-lg p-4 flex flex-col min-h-0">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="flex items-center justify-between w-full text-left"
+      >
+        <h3 className="text-green-400 font-mono text-sm font-semibold flex items-center">
+          <SlidersHorizontal className="w-4 h-4 mr-2" />
+          Generation Parameters
+        </h3>
+        <div className="flex items-center space-x-2">
+          {overrideCount > 0 && (
+            <span className="text-xs font-mono px-2 py-0.5 bg-green-500/20 text-green-400 border border-green-500/30 rounded">
+              {overrideCount} set
+            </span>
+          )}
+          {isExpanded ? <ChevronDown className="w-4 h-4 text-gray-400" /> : <ChevronRight className="w-4 h-4 text-gray-400" />}
+        </div>
+      </button>
+
+      {isExpanded && (
+        <div className="mt-3 pt-3 border-t border-green-500/20 overflow-y-auto min-h-0 space-y-3">
+          <p className="text-gray-400 text-xs">
+            Saved for this conversation in {MODE_LABELS[mode]} mode. Leave a field empty to use the default.
+          </p>
+
+          <div className="grid grid-cols-2 gap-2">
+            {NUMERIC_FIELDS.map(field => {
+              const supported = supportedParams.includes(field.key);
+              const defaultValue = defaults[field.key];
+              return (
+                <label key={field.key} className="block" title={supported ? undefined : `Not supported by ${providerLabel}`}>
+                  <span className={`block text-xs font-mono mb-1 ${supported ? 'text-gray-300' : 'text-gray-600 line-through'}`}>
+                    {field.label}
+                  </span>
+                  <input
+                    type="number"
+                    value={params[field.key] ?? ''}
+                    onChange={(e) => handleNumberChange(field.key, e.target.value)}
+                    min={field.min}
+                    max={field.max}
+                    step={field.step}
+                    disabled={!supported}
+                    placeholder={!supported ? 'n/a' : defaultValue !== undefined ? `${defaultValue}` : 'default'}
+                    className={inputClassName(supported)}
+                  />
+                </label>
+              );
+            })}
+          </div>
+
+          <label className="block" title={supportedParams.includes('stopSequences') ? undefined : `Not supported by ${providerLabel}`}>
+            <span className="block text-xs font-mono mb-1 text-gray-300">Stop sequences (one per line)</span>
+            <textarea
+              value={(params.stopSequences || []).join('\n')}
+              onChange={(e) => handleStopSequencesChange(e.target.value)}
+              disabled={!supportedParams.includes('stopSequences')}
+              rows={2}
+              className={`${inputClassName(supportedParams.includes('stopSequences'))} resize-none`}
+            />
+          </label>
+
+          {supportedParams.length < NUMERIC_FIELDS.length + 1 && (
+            <p className="text-gray-500 text-xs font-mono">
+              Struck-out parameters are not sent to {providerLabel}.
+            </p>
+          )}
+
+          <button
+            onClick={() => onChange({})}
+            disabled={overrideCount === 0}
+            className="w-full p-2 bg-gray-800/50 hover:bg-green-500/10 border border-gray-700 hover:border-green-500/50 rounded-lg transition-all duration-200 flex items-center justify-center space-x-2 text-gray-300 font-mono text-xs disabled:opacity-50"
+          >
+            <RotateCcw className="w-3 h-3" />
+            <span>Reset to defaults</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GenerationParamsPanel;
@@ -1,20 +1,27 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Terminal, Paperclip, X, FileText, Image, File, Loader2, ToggleLeft, ToggleRight } from 'lucide-react';
-import { OperationMode, FileAttachment } from '../types';
+import { Send, Terminal, Paperclip, X, FileText, Image, File, Loader2, ToggleLeft, ToggleRight, Square, AlertTriangle } from 'lucide-react';
+import { OperationMode, FileAttachment, ModelCapabilities } from '../types';
 import { DocumentProcessor } from '../utils/documentProcessor';
+import { ModelCapabilityRegistry } from '../utils/modelCapabilities';
 
 interface InputAreaProps {
   onSendMessage: (message: string, attachments?: FileAttachment[]) => void;
   currentMode: OperationMode;
   isTyping: boolean;
   onCommandExecute: (command: string, args: string[]) => void;
+  onStopGeneration: () => void;
+  model: string;
+  modelCapabilities: ModelCapabilities;
 }
 
 const InputArea: React.FC<InputAreaProps> = ({
   onSendMessage,
   currentMode,
   isTyping,
-  onCommandExecute
+  onCommandExecute,
+  onStopGeneration,
+  model,
+  modelCapabilities
 }) => {
   const [input, setInput] = useState('');
   const [isMultiline, setIsMultiline] = useState(false);
@@ -23,6 +30,11 @@ const InputArea: React.FC<InputAreaProps> = ({
   const inputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const processingAbortRef = useRef<AbortController | null>(null);
+
+  const canStop = isTyping || processingFiles.size > 0;
+  // Refuse images for text-only models, warn when part of an attachment won't reach the model
+  const attachmentCheck = ModelCapabilityRegistry.checkAttachments(modelCapabilities, model, attachments);
 
   useEffect(() => {
     if (isMultiline && textareaRef.current) {
@@ -32,14 +44,40 @@ const InputArea: React.FC<InputAreaProps> = ({
     }
   }, [isMultiline]);
 
+  // Stop the in-flight generation and any attachment processing for this turn
+  const handleStop = () => {
+    processingAbortRef.current?.abort();
+    onStopGeneration();
+  };
+
+  // Esc stops the current turn - listen on the window since the inputs are disabled while it runs
+  useEffect(() => {
+    if (!canStop) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        handleStop();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
     if (!files) return;
 
     const newAttachments: FileAttachment[] = [];
     const processingIds = new Set<string>();
+    const abortController = new AbortController();
+    processingAbortRef.current = abortController;
 
     for (let i = 0; i < files.length; i++) {
+      // Remaining files are skipped once processing has been stopped
+      if (abortController.signal.aborted) break;
+
       const file = files[i];
       
       // Check file size (max 10MB)
@@ -70,7 +108,7 @@ const InputArea: React.FC<InputAreaProps> = ({
         } else if (DocumentProcessor.isSupportedDocument(file)) {
           // Handle documents (including PDFs)
           try {
-            const result = await DocumentProcessor.processDocument(file);
+            const result = await DocumentProcessor.processDocument(file, abortController.signal);
             
             attachment = {
               id: attachmentId,
@@ -86,6 +124,7 @@ const InputArea: React.FC<InputAreaProps> = ({
               console.log(`PDF processed: ${result.pages.length} pages converted to images`);
             }
           } catch (error) {
+            if (abortController.signal.aborted) break;
             console.error(`Error processing document ${file.name}:`, error);
             alert(`Error processing document ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
             continue;
@@ -115,7 +154,16 @@ const InputArea: React.FC<InputAreaProps> = ({
       }
     }
 
-    setAttachments(prev => [...prev, ...newAttachments]);
+    if (processingAbortRef.current === abortController) {
+      processingAbortRef.current = null;
+    }
+
+    // Discard everything from a stopped batch, releasing the object URLs already created for it
+    if (abortController.signal.aborted) {
+      newAttachments.forEach(att => att.url && URL.revokeObjectURL(att.url));
+    } else {
+      setAttachments(prev => [...prev, ...newAttachments]);
+    }
     
     // Clear the file input
     if (fileInputRef.current) {
@@ -162,6 +210,7 @@ const InputArea: React.FC<InputAreaProps> = ({
       const [command, ...args] = input.split(' ');
       onCommandExecute(command, args);
     } else {
+      if (attachmentCheck.error) return;
       onSendMessage(input || 'Please analyze the attached files.', attachments.length > 0 ? attachments : undefined);
     }
 
@@ -266,6 +315,17 @@ const InputArea: React.FC<InputAreaProps> = ({
               </div>
             ))}
           </div>
+
+          {(attachmentCheck.error || attachmentCheck.warning) && (
+            <div className={`flex items-start space-x-2 p-2 rounded-lg border text-xs font-mono ${
+              attachmentCheck.error
+                ? 'bg-red-500/10 border-red-500/20 text-red-400'
+                : 'bg-yellow-500/10 border-yellow-500/20 text-yellow-400'
+            }`}>
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              <span>{attachmentCheck.error || attachmentCheck.warning}</span>
+            </div>
+          )}
         </div>
       )}
 
@@ -342,13 +402,24 @@ const InputArea: React.FC<InputAreaProps> = ({
           )}
         </button>
         
-        <button
-          type="submit"
-          disabled={(!input.trim() && attachments.length === 0) || isTyping || processingFiles.size > 0}
-          className="px-4 py-3 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors duration-200 flex items-center space-x-2"
-        >
-          <Send className="w-4 h-4" />
-        </button>
+        {canStop ? (
+          <button
+            type="button"
+            onClick={handleStop}
+            className="px-4 py-3 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors duration-200 flex items-center space-x-2"
+            title="Stop (Esc)"
+          >
+            <Square className="w-4 h-4" />
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={(!input.trim() && attachments.length === 0) || (!!attachmentCheck.error && !input.startsWith('/'))}
+            className="px-4 py-3 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors duration-200 flex items-center space-x-2"
+          >
+            <Send className="w-4 h-4" />
+          </button>
+        )}
       </form>
 
       {/* Hidden File Input */}
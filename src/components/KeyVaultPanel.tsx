@@ -0,0 +1,203 @@
+import React, { useState, useRef } from 'react';
+import { Shield, ShieldCheck, Lock, Download, Upload, Trash2, X, Loader2 } from 'lucide-react';
+import { VaultStatus } from '../hooks/useKeyVault';
+
+interface KeyVaultPanelProps {
+  status: VaultStatus;
+  keyRefs: string[]; // Keys currently held in memory
+  onCreate: (passphrase: string) => Promise<void>;
+  onUnlock: (passphrase: string) => Promise<void>;
+  onLock: () => void;
+  onForget: () => void;
+  onExport: () => void;
+  onImport: (json: string) => void;
+  onClose: () => void;
+}
+
+const KeyVaultPanel: React.FC<KeyVaultPanelProps> = ({
+  status,
+  keyRefs,
+  onCreate,
+  onUnlock,
+  onLock,
+  onForget,
+  onExport,
+  onImport,
+  onClose
+}) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [error, setError] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const runAction = async (action: () => Promise<void> | void) => {
+    setError('');
+    setIsWorking(true);
+    try {
+      await action();
+      setPassphrase('');
+      setConfirmPassphrase('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphrase.length < 8) {
+      setError('Use a passphrase of at least 8 characters');
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      setError('Passphrases do not match');
+      return;
+    }
+    runAction(() => onCreate(passphrase));
+  };
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphrase) {
+      runAction(() => onUnlock(passphrase));
+    }
+  };
+
+  const handleForget = () => {
+    if (window.confirm('Delete the encrypted key vault from this browser? Keys entered this session stay available until reload.')) {
+      runAction(onForget);
+    }
+  };
+
+  const handleImportFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => runAction(() => onImport(e.target?.result as string));
+    reader.readAsText(file);
+    event.target.value = '';
+  };
+
+  const inputClassName = 'w-full p-3 bg-gray-900/50 border border-gray-700 focus:border-green-500 rounded-lg text-green-400 font-mono text-sm focus:outline-none focus:ring-1 focus:ring-green-500/50';
+  const primaryButtonClassName = 'w-full p-3 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors duration-200 flex items-center justify-center space-x-2 font-mono text-sm';
+  const secondaryButtonClassName = 'flex-1 p-2 bg-gray-800/50 hover:bg-green-500/10 border border-gray-700 hover:border-green-500/50 rounded-lg transition-all duration-200 flex items-center justify-center space-x-2 text-gray-300 font-mono text-xs disabled:opacity-50';
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="max-w-md w-full bg-black/90 border border-green-500/20 rounded-lg p-6 shadow-2xl">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-green-400 font-mono text-lg font-semibold flex items-center">
+            {status === 'unlocked' ? <ShieldCheck className="w-5 h-5 mr-2" /> : <Shield className="w-5 h-5 mr-2" />}
+            API Key Vault
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-green-400 transition-colors duration-200" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-gray-400 text-xs mb-4">
+          Keys are encrypted in this browser with your passphrase (PBKDF2 + AES-GCM). The passphrase itself is never stored.
+        </p>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
+            <p className="text-red-400 text-sm font-mono">{error}</p>
+          </div>
+        )}
+
+        {status === 'none' && (
+          <form onSubmit={handleCreate} className="space-y-3">
+            <p className="text-gray-300 font-mono text-sm">
+              Create a vault for the {keyRefs.length} key(s) entered this session:
+            </p>
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder="Passphrase"
+              className={inputClassName}
+              autoFocus
+            />
+            <input
+              type="password"
+              value={confirmPassphrase}
+              onChange={(e) => setConfirmPassphrase(e.target.value)}
+              placeholder="Confirm passphrase"
+              className={inputClassName}
+            />
+            <button type="submit" disabled={!passphrase || isWorking} className={primaryButtonClassName}>
+              {isWorking ? <Loader2 className="w-4 h-4 animate-spin" /> : <ShieldCheck className="w-4 h-4" />}
+              <span>Create Vault</span>
+            </button>
+          </form>
+        )}
+
+        {status === 'locked' && (
+          <form onSubmit={handleUnlock} className="space-y-3">
+            <p className="text-gray-300 font-mono text-sm">The vault is locked:</p>
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder="Passphrase"
+              className={inputClassName}
+              autoFocus
+            />
+            <button type="submit" disabled={!passphrase || isWorking} className={primaryButtonClassName}>
+              {isWorking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Lock className="w-4 h-4" />}
+              <span>Unlock</span>
+            </button>
+          </form>
+        )}
+
+        {status === 'unlocked' && (
+          <div className="space-y-3">
+            <p className="text-gray-300 font-mono text-sm">Unlocked - new keys are saved automatically.</p>
+            <div className="p-3 bg-gray-800/30 border border-gray-700 rounded-lg space-y-1 max-h-40 overflow-y-auto">
+              {keyRefs.length === 0 ? (
+                <div className="text-gray-500 font-mono text-xs">No keys stored yet</div>
+              ) : (
+                keyRefs.map(keyRef => (
+                  <div key={keyRef} className="text-green-400 font-mono text-xs truncate">
+                    {keyRef} · ••••••••
+                  </div>
+                ))
+              )}
+            </div>
+            <button onClick={onLock} className={primaryButtonClassName}>
+              <Lock className="w-4 h-4" />
+              <span>Lock</span>
+            </button>
+          </div>
+        )}
+
+        <div className="mt-4 pt-4 border-t border-green-500/20 flex space-x-2">
+          <button onClick={onExport} disabled={status === 'none'} className={secondaryButtonClassName} title="Download the encrypted vault">
+            <Download className="w-3 h-3" />
+            <span>Export</span>
+          </button>
+          <button onClick={() => importInputRef.current?.click()} className={secondaryButtonClassName} title="Replace this vault with an exported one">
+            <Upload className="w-3 h-3" />
+            <span>Import</span>
+          </button>
+          <button onClick={handleForget} disabled={status === 'none'} className={`${secondaryButtonClassName} hover:text-red-400`} title="Delete the vault from this browser">
+            <Trash2 className="w-3 h-3" />
+            <span>Forget</span>
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json"
+            onChange={handleImportFile}
+            className="hidden"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KeyVaultPanel;
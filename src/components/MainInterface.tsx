@@ -1,32 +1,181 @@
-import React, { useState, useEffect } from 'react';
-import { Settings, Download, Upload, Trash2 } from 'lucide-react';
-import { AppState, ChatMessage, OperationMode, CodeBlock, FileAttachment } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { Settings, Upload, Trash2, Shield, ShieldCheck, PanelLeft, PanelLeftClose, Search } from 'lucide-react';
+import {
+  AppState,
+  ChatMessage,
+  Conversation,
+  OperationMode,
+  CodeBlock,
+  FileAttachment,
+  GenerationParams,
+  ModelCapabilities,
+  ProviderConfig,
+  ProviderProfile,
+  RegenerateOptions,
+  SearchHighlight,
+  StorageUsage
+} from '../types';
 import ChatArea from './ChatArea';
 import InputArea from './InputArea';
 import ModeSelector from './ModeSelector';
 import SystemPromptInput from './SystemPromptInput';
+import GenerationParamsPanel from './GenerationParamsPanel';
+import ProfileSwitcher from './ProfileSwitcher';
+import ConversationSidebar from './ConversationSidebar';
+import ExportMenu from './ExportMenu';
+import SearchPanel from './SearchPanel';
+import PinnedPanel from './PinnedPanel';
 import { useLocalStorage } from '../hooks/useLocalStorage';
+import { VaultStatus } from '../hooks/useKeyVault';
+import { DEFAULT_CONVERSATION_TITLE } from '../hooks/useConversations';
+import { AIClient, RetryNotice } from '../utils/aiClient';
+import { AIRequestError } from '../utils/aiRequestError';
+import { ConversationBuilder } from '../utils/conversationBuilder';
+import { ConversationArchive } from '../utils/conversationArchive';
+import { ConversationTree } from '../utils/conversationTree';
+import { SearchResult } from '../utils/conversationSearch';
+import { ConversationTitler } from '../utils/conversationTitler';
+import { ConversationExporter, ExportFormat } from '../utils/conversationExporter';
+import { ContextManager } from '../utils/contextManager';
+import { CodeFences } from '../utils/codeFences';
+import { ModelCapabilityRegistry } from '../utils/modelCapabilities';
+import { getProviderAdapter } from '../providers';
+
+// Where a reply is generated - the active profile, unless a regeneration picks another one
+interface GenerationTarget {
+  config: Omit<ProviderConfig, 'params'>;
+  capabilities: ModelCapabilities;
+  defaultParams: GenerationParams; // Profile defaults over the model's output limit
+}
 
 interface MainInterfaceProps {
   initialState: Pick<AppState, 'provider' | 'model' | 'apiKey' | 'baseURL'>;
-  onChangeProvider: () => void;
+  activeProfile: ProviderProfile;
+  profiles: ProviderProfile[];
+  getProfileApiKey: (profile: ProviderProfile) => string | undefined; // Keys entered or unlocked this session
+  vaultStatus: VaultStatus;
+  conversation: Conversation;
+  conversations: Conversation[];
+  storageUsage: StorageUsage;
+  onUpdateConversation: (conversationId: string, updater: (conversation: Conversation) => Conversation) => void;
+  onSelectConversation: (conversationId: string) => void;
+  onCreateConversation: () => void;
+  onImportConversation: (seed: Partial<Conversation>) => void;
+  onRenameConversation: (conversationId: string, title: string) => void;
+  onDuplicateConversation: (conversationId: string) => void;
+  onArchiveConversation: (conversationId: string, archived: boolean) => void;
+  onDeleteConversation: (conversationId: string) => void;
+  onSelectProfile: (profileId: string) => void;
+  onAddProfile: () => void;
+  onDeleteProfile: (profileId: string) => void;
+  onOpenVault: () => void;
 }
 
-const MainInterface: React.FC<MainInterfaceProps> = ({ initialState, onChangeProvider }) => {
-  // Date reviver function to convert timestamp strings back to Date objects
-  const dateReviver = (key: string, value: any) => {
-    if (key === 'timestamp' && typeof value === 'string') {
-      return new Date(value);
-    }
-    return value;
+const MainInterface: React.FC<MainInterfaceProps> = ({
+  initialState,
+  activeProfile,
+  profiles,
+  getProfileApiKey,
+  vaultStatus,
+  conversation,
+  conversations,
+  storageUsage,
+  onUpdateConversation,
+  onSelectConversation,
+  onCreateConversation,
+  onImportConversation,
+  onRenameConversation,
+  onDuplicateConversation,
+  onArchiveConversation,
+  onDeleteConversation,
+  onSelectProfile,
+  onAddProfile,
+  onDeleteProfile,
+  onOpenVault
+}) => {
+  const providerAdapter = initialState.provider ? getProviderAdapter(initialState.provider) : null;
+  const providerLabel = providerAdapter ? providerAdapter.label : 'No provider';
+
+  const getGenerationTarget = (profile: ProviderProfile, apiKey: string): GenerationTarget => {
+    const capabilities = ModelCapabilityRegistry.resolve(profile.model, profile.modelInfo);
+    // The adapter's default output budget, capped to what the model allows, under the profile defaults
+    const defaultMaxOutputTokens = getProviderAdapter(profile.provider).defaultParams.maxOutputTokens;
+    return {
+      config: { provider: profile.provider, model: profile.model, apiKey, baseURL: profile.baseURL },
+      capabilities,
+      defaultParams: {
+        ...(defaultMaxOutputTokens && capabilities.maxOutputTokens && {
+          maxOutputTokens: Math.min(defaultMaxOutputTokens, capabilities.maxOutputTokens)
+        }),
+        ...profile.defaultParams
+      }
+    };
   };
-  
-  // State management
-  const [chatMessages, setChatMessages] = useLocalStorage<ChatMessage[]>('ai-nodecoder-messages', [], dateReviver);
-  const [currentMode, setCurrentMode] = useState<OperationMode>('none');
+
+  const activeTarget = getGenerationTarget(activeProfile, initialState.apiKey);
+  const modelCapabilities = activeTarget.capabilities;
+  const modelDefaultParams = activeTarget.defaultParams;
+
+  // Other profiles can only answer once their API key is known
+  const regenerateProfiles = profiles.filter(profile => !profile.requiresApiKey || !!getProfileApiKey(profile));
+
+  // State management - chat history and settings belong to the active conversation
+  const conversationId = conversation.id;
+  // The chat shows and sends only the selected branch; edits and regenerated replies live on as alternatives
+  const chatMessages = ConversationTree.getActivePath(conversation.messages, conversation.activeLeafId);
+  const versionInfo = ConversationTree.getVersionInfo(conversation.messages, chatMessages);
+  const currentMode = conversation.mode;
+  const customSystemPrompt = conversation.systemPrompt;
+  const systemPromptEnabled = conversation.systemPromptEnabled;
+  const generationParams = conversation.generationParams;
   const [isTyping, setIsTyping] = useState(false);
-  const [customSystemPrompt, setCustomSystemPrompt] = useLocalStorage<string>('ai-nodecoder-system-prompt', '');
-  const [systemPromptEnabled, setSystemPromptEnabled] = useLocalStorage<boolean>('ai-nodecoder-system-prompt-enabled', false);
+  const [streamingMessage, setStreamingMessage] = useState<ChatMessage | null>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const loadInputRef = useRef<HTMLInputElement>(null);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchHighlight, setSearchHighlight] = useState<SearchHighlight | null>(null);
+  const [titlingIds, setTitlingIds] = useState<Set<string>>(new Set());
+  // Conversations already named automatically this session, so a failed attempt isn't repeated on every reply
+  const autoTitledRef = useRef<Set<string>>(new Set());
+  const [showConversations, setShowConversations] = useLocalStorage<boolean>('ai-nodecoder-show-conversations', true);
+
+  // Updates always target the conversation this render belongs to, so a reply still streaming lands in the right thread
+  const updateConversation = (changes: Partial<Conversation>) => {
+    onUpdateConversation(conversationId, current => ({ ...current, ...changes }));
+  };
+
+  // Updates work on the active branch; the result is merged back into the conversation tree
+  const setChatMessages = (update: ChatMessage[] | ((prev: ChatMessage[]) => ChatMessage[])) => {
+    onUpdateConversation(conversationId, current => {
+      const path = ConversationTree.getActivePath(current.messages, current.activeLeafId);
+      const nextPath = update instanceof Function ? update(path) : update;
+      const messages = ConversationTree.applyPath(current.messages, path, nextPath);
+      // The first real message names a conversation that still has the default title, until the generated title arrives
+      const firstUserMessage = nextPath.find(message => message.role === 'user' && !message.content.startsWith('/'));
+      const title = current.title === DEFAULT_CONVERSATION_TITLE && firstUserMessage
+        ? firstUserMessage.content.replace(/\s+/g, ' ').trim().substring(0, 40) || current.title
+        : current.title;
+      return { ...current, messages, activeLeafId: nextPath[nextPath.length - 1]?.id, title, updatedAt: new Date() };
+    });
+  };
+
+  // Clearing drops every branch, not just the one on screen
+  const clearChatMessages = () => updateConversation({ messages: [], activeLeafId: undefined });
+
+  const setCurrentMode = (mode: OperationMode) => updateConversation({ mode });
+  const setCustomSystemPrompt = (systemPrompt: string) => updateConversation({ systemPrompt });
+  const setSystemPromptEnabled = (enabled: boolean) => updateConversation({ systemPromptEnabled: enabled });
+  const setGenerationParams = (params: Partial<Record<OperationMode, GenerationParams>>) => updateConversation({ generationParams: params });
+
+  // Switching conversations stops the generation; the partial reply is kept in the conversation it belongs to
+  useEffect(() => {
+    return () => generationAbortRef.current?.abort();
+  }, [conversationId]);
+
+  // A search highlight only lasts until another conversation is opened
+  useEffect(() => {
+    setSearchHighlight(current => current?.conversationId === conversationId ? current : null);
+  }, [conversationId]);
 
   // Add initial welcome message
   useEffect(() => {
@@ -36,7 +185,7 @@ const MainInterface: React.FC<MainInterfaceProps> = ({ initialState, onChangePro
         role: 'system',
         content: `Welcome to **11ku7 AI Chat v1.0.0**! 
 
-You're now connected to **${initialState.provider}** (${initialState.model})
+You're now connected to **${providerLabel}** (${initialState.model})
 
 **Available Commands:**
 - \`/help\` - Show all commands and key bindings
@@ -44,7 +193,7 @@ You're now connected to **${initialState.provider}** (${initialState.model})
 - \`/webapp\` - Toggle webapp-only generation mode  
 - \`/copy\` - Copy code blocks to clipboard
 - \`/clear\` - Clear chat history
-- \`/model\` - Change AI provider/model
+- \`/model\` - List provider profiles, \`/model <number|name>\` to switch
 
 **New Features:**
 - 📎 **File Attachments**: Click the paperclip icon to attach images, documents, or code files
@@ -64,64 +213,13 @@ Start by typing a message, using a command, or attaching files!`,
       };
       setChatMessages([welcomeMessage]);
     }
-  }, []);
-
-  // Get previous context from recent messages
-  const getPreviousContext = (): string => {
-    const recentMessages = chatMessages.slice(-6); // Last 6 messages for context
-    if (recentMessages.length === 0) return '';
-    
-    const contextMessages = recentMessages
-      .filter(msg => msg.role !== 'system') // Exclude system messages
-      .map(msg => {
-        let content = `${msg.role}: ${msg.content}`;
-        
-        // Add attachment context
-        if (msg.attachments && msg.attachments.length > 0) {
-          const attachmentInfo = msg.attachments.map(att => {
-            if (att.documentPages && att.documentPages.length > 0) {
-              return `[PDF: ${att.name} (${att.documentPages.length} pages as images)]`;
-            }
-            return `[Attachment: ${att.name} (${att.type})]`;
-          }).join(', ');
-          content += `\n${attachmentInfo}`;
-        }
-        
-        return content;
-      })
-      .join('\n\n');
-    
-    return contextMessages ? `Previous conversation context:\n${contextMessages}\n\n` : '';
-  };
-
-  // Create mode-specific prompts for AI
-  const createModePrompt = (userMessage: string, mode: OperationMode, attachments?: FileAttachment[]): string => {
-    const previousContext = getPreviousContext();
-    let attachmentContext = '';
-    
-    // Process text attachments for context
-    if (attachments && attachments.length > 0) {
-      attachmentContext = '\n\nAttached files:\n';
-      attachments.forEach((attachment, index) => {
-        if (!attachment.type.startsWith('image/') && !attachment.documentPages) {
-          // Only include text content in prompt, images and PDF pages are handled separately
-          attachmentContext += `\n${index + 1}. ${attachment.name} (${attachment.type}, ${Math.round(attachment.size / 1024)}KB):\n`;
-          attachmentContext += `${attachment.content}\n`;
-        } else if (attachment.documentPages) {
-          // For PDFs, include text content from all pages
-          attachmentContext += `\n${index + 1}. ${attachment.name} (PDF with ${attachment.documentPages.length} pages):\n`;
-          attachmentContext += `${attachment.content}\n`;
-        }
-      });
-    }
-    
-    const baseContext = `${previousContext}${attachmentContext}`;
+  }, [conversationId]);
 
+  // Mode-specific instructions, sent through the provider's native system channel
+  const getSystemInstruction = (mode: OperationMode): string | undefined => {
     switch (mode) {
       case 'code':
-        return `${baseContext}You are in CODE MODE. Generate ONLY clean, production-ready code without any explanations, descriptions, or commentary.
-
-User request: "${userMessage}"
+        return `You are in CODE MODE. Generate ONLY clean, production-ready code without any explanations, descriptions, or commentary.
 
 Requirements:
 - Provide ONLY code in proper markdown code blocks with language specification
@@ -135,9 +233,7 @@ Requirements:
 Respond with code only.`;
 
       case 'webapp':
-        return `${baseContext}You are in WEBAPP MODE. Create ONLY a complete, production-ready web application as a single HTML file without any explanations.
-
-User request: "${userMessage}"
+        return `You are in WEBAPP MODE. Create ONLY a complete, production-ready web application as a single HTML file without any explanations.
 
 Requirements:
 - Provide ONLY ONE HTML code block containing the complete web application
@@ -154,210 +250,166 @@ Requirements:
 Respond with a single HTML code block only.`;
 
       default:
-        // For normal mode, check if custom system prompt is enabled
+        // For normal mode, use the custom system prompt if it is enabled
         if (systemPromptEnabled && customSystemPrompt.trim()) {
-          return `${customSystemPrompt.trim()}\n\n${baseContext}User request: "${userMessage}"`;
+          return customSystemPrompt.trim();
         }
-        // For normal mode without custom prompt, return raw user message with context
-        return `${baseContext}${userMessage}`;
+        // Normal mode without custom prompt sends the raw conversation
+        return undefined;
     }
   };
 
-  // Helper function to convert base64 data URL to just base64 string
-  const extractBase64FromDataURL = (dataURL: string): string => {
-    const base64Index = dataURL.indexOf(',');
-    return base64Index !== -1 ? dataURL.substring(base64Index + 1) : dataURL;
+  // Conversation overrides win over the profile defaults; the adapter fills in the rest
+  const getGenerationParams = (mode: OperationMode, target: GenerationTarget = activeTarget): GenerationParams => {
+    return { ...target.defaultParams, ...generationParams[mode] };
   };
 
-  // Actual AI response function using fetch API
-  const getActualAIResponse = async (userMessage: string, mode: OperationMode = 'none', attachments?: FileAttachment[]): Promise<string> => {
-    try {
-      const prompt = createModePrompt(userMessage, mode, attachments);
-      const hasImages = attachments?.some(att => att.type.startsWith('image/') || (att.documentPages && att.documentPages.length > 0));
-      
-      if (initialState.provider === 'Gemini') {
-        let requestBody: any = {
-          generationConfig: {
-            temperature: 0.7,
-            topK: 40,
-            topP: 0.95,
-            maxOutputTokens: 8192,
-          }
-        };
-
-        if (hasImages) {
-          // For Gemini with images, use the parts format
-          const parts: any[] = [{ text: prompt }];
-          
-          attachments?.forEach(attachment => {
-            if (attachment.type.startsWith('image/')) {
-              const base64Data = extractBase64FromDataURL(attachment.content);
-              parts.push({
-                inline_data: {
-                  mime_type: attachment.type,
-                  data: base64Data
-                }
-              });
-            } else if (attachment.documentPages) {
-              // Add each PDF page as an image
-              attachment.documentPages.forEach((page, index) => {
-                parts.push({
-                  inline_data: {
-                    mime_type: 'image/jpeg',
-                    data: page.imageBase64
-                  }
-                });
-              });
-            }
-          });
-          
-          requestBody.contents = [{ parts }];
-        } else {
-          // For text-only requests
-          requestBody.contents = [{
-            parts: [{ text: prompt }]
-          }];
-        }
-
-        const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${initialState.model}:generateContent?key=${initialState.apiKey}`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(requestBody)
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          throw new Error(`Gemini API error: ${response.status} ${response.statusText}. ${errorData.error?.message || ''}`);
-        }
-
-        const data = await response.json();
-        
-        if (!data.candidates || !data.candidates[0] || !data.candidates[0].content) {
-          throw new Error('Invalid response format from Gemini API');
-        }
-        
-        return data.candidates[0].content.parts[0].text || 'No response from Gemini API';
-      } else if (initialState.provider === 'OpenAI') {
-        // For OpenAI-compatible APIs, use the OpenAI format
-        const messages: any[] = [];
-        
-        if (hasImages) {
-          // For vision models, use the content array format
-          const content: any[] = [{ type: 'text', text: prompt }];
-          
-          attachments?.forEach(attachment => {
-            if (attachment.type.startsWith('image/')) {
-              content.push({
-                type: 'image_url',
-                image_url: {
-                  url: attachment.content // Use the full data URL
-                }
-              });
-            } else if (attachment.documentPages) {
-              // Add each PDF page as an image
-              attachment.documentPages.forEach((page) => {
-                content.push({
-                  type: 'image_url',
-                  image_url: {
-                    url: `data:image/jpeg;base64,${page.imageBase64}`
-                  }
-                });
-              });
-            }
-          });
-          
-          messages.push({
-            role: 'user',
-            content: content
-          });
-        } else {
-          // For text-only requests
-          messages.push({
-            role: 'user',
-            content: prompt
-          });
-        }
+  // Pick the history that fits the model's input budget, newest first
+  const selectContext = (
+    currentMessage: ChatMessage | null,
+    mode: OperationMode,
+    history: ChatMessage[] = chatMessages,
+    target: GenerationTarget = activeTarget
+  ) => {
+    // Where the window covers the reply too, the max_tokens actually sent is kept free for it
+    const adapter = target.config.provider ? getProviderAdapter(target.config.provider) : null;
+    const reservedOutputTokens = adapter?.sharedContextWindow
+      ? getGenerationParams(mode, target).maxOutputTokens ?? adapter.defaultParams.maxOutputTokens
+      : undefined;
+
+    return ContextManager.selectContext(history, currentMessage, {
+      model: target.config.model,
+      provider: target.config.provider,
+      system: getSystemInstruction(mode),
+      limitTokens: target.capabilities.contextTokens,
+      reservedOutputTokens
+    });
+  };
 
-        const response = await fetch(`${initialState.baseURL}/chat/completions`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${initialState.apiKey}`
-          },
-          body: JSON.stringify({
-            model: initialState.model,
-            messages: messages,
-            temperature: 0.7,
-            max_tokens: 4096,
-            stream: false
-          })
-        });
+  // Context window usage for the next message, shown in the chat header
+  const contextUsage = selectContext(null, currentMode).usage;
+  const pinnedItems = ContextManager.getPinnedItems(chatMessages);
+
+  // Actual AI response function - streams the reply through the provider adapter, reporting the accumulated text through onChunk
+  const getActualAIResponse = async (
+    userMessage: ChatMessage,
+    mode: OperationMode = 'none',
+    options: {
+      onChunk?: (partialContent: string) => void;
+      onRetry?: (notice: RetryNotice) => void;
+      signal?: AbortSignal;
+      history?: ChatMessage[]; // Messages before userMessage, defaults to the whole chat
+      target?: GenerationTarget; // Defaults to the active profile
+      temperature?: number; // Overrides the conversation's temperature
+    } = {}
+  ): Promise<string> => {
+    const target = options.target || activeTarget;
+    if (!target.config.provider || !target.config.model) {
+      return 'No AI provider configured';
+    }
 
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          throw new Error(`OpenAI API error: ${response.status} ${response.statusText}. ${errorData.error?.message || ''}`);
-        }
+    // Older turns that don't fit the budget are replaced by a summary in the system channel
+    const { messages, summary } = selectContext(userMessage, mode, options.history, target);
+    const system = [getSystemInstruction(mode), summary].filter(Boolean).join('\n\n');
+    const params = getGenerationParams(mode, target);
 
-        const data = await response.json();
-        
-        if (!data.choices || !data.choices[0] || !data.choices[0].message) {
-          throw new Error('Invalid response format from OpenAI API');
-        }
-        
-        return data.choices[0].message.content || 'No response from OpenAI API';
-      }
+    try {
+      return await AIClient.streamChat(
+        {
+          ...target.config,
+          params: options.temperature !== undefined ? { ...params, temperature: options.temperature } : params
+        },
+        // Text-only models still get the extracted text of PDFs, just not the page images
+        ConversationBuilder.buildRequest(messages, system, target.capabilities.vision !== false),
+        options
+      );
     } catch (error) {
       console.error('AI API Error:', error);
       throw error;
     }
-    
-    return 'No AI provider configured';
   };
 
   // AI response handler
-  const simulateAIResponse = async (userMessage: string, attachments?: FileAttachment[]) => {
+  const simulateAIResponse = async (userMessage: ChatMessage, history?: ChatMessage[], regenerate: RegenerateOptions = {}) => {
     setIsTyping(true);
+
+    // A regeneration may ask another profile; the prompt is always answered in the mode it was sent in
+    const profile = profiles.find(candidate => candidate.id === regenerate.profileId);
+    const target = profile ? getGenerationTarget(profile, getProfileApiKey(profile) || '') : activeTarget;
+    const mode = userMessage.mode || currentMode;
     
+    const aiMessageId = `ai-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const aiMessageTimestamp = new Date();
+    const abortController = new AbortController();
+    generationAbortRef.current = abortController;
     let responseContent = '';
+    let partialContent = '';
     let codeBlocks: CodeBlock[] = [];
+    let stopped = false;
+    let error: ChatMessage['error'];
 
     try {
       // Handle different modes and commands
-      if (userMessage.startsWith('/')) {
-        responseContent = handleCommand(userMessage);
+      if (userMessage.content.startsWith('/')) {
+        responseContent = handleCommand(userMessage.content);
       } else {
-        // Use actual AI response for all other modes
-        responseContent = await getActualAIResponse(userMessage, currentMode, attachments);
-        codeBlocks = extractCodeBlocks(responseContent);
+        // Send the history that fits the context window, rendering the partial reply as it streams in
+        responseContent = await getActualAIResponse(userMessage, mode, {
+          onChunk: (content) => {
+            partialContent = content;
+            setStreamingMessage({
+              id: aiMessageId,
+              role: 'ai',
+              content,
+              timestamp: aiMessageTimestamp
+            });
+          },
+          // Show the backoff in the typing bubble until the retried request starts streaming
+          onRetry: ({ attempt, maxRetries, delayMs, error }) => {
+            setStreamingMessage({
+              id: aiMessageId,
+              role: 'ai',
+              content: `_${error.message}_\n\n_Retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt}/${maxRetries})..._`,
+              timestamp: aiMessageTimestamp
+            });
+          },
+          signal: abortController.signal,
+          history,
+          target,
+          temperature: regenerate.temperature
+        });
+        // Code blocks are only extracted once the full response has arrived
+        codeBlocks = CodeFences.extract(responseContent);
+      }
+    } catch (caughtError) {
+      if (abortController.signal.aborted) {
+        // Stopped by the user - keep whatever arrived before the abort
+        stopped = true;
+        responseContent = partialContent || '_Generation stopped before any response arrived._';
+        codeBlocks = CodeFences.extract(partialContent);
+      } else {
+        // The error card explains the failure; any partial reply that arrived before it is kept
+        error = AIRequestError.toChatError(caughtError);
+        responseContent = partialContent;
+        codeBlocks = CodeFences.extract(partialContent);
+      }
+    } finally {
+      if (generationAbortRef.current === abortController) {
+        generationAbortRef.current = null;
       }
-    } catch (error) {
-      responseContent = `**Error communicating with AI:**
-
-${error instanceof Error ? error.message : 'Unknown error occurred'}
-
-**Troubleshooting:**
-- Check your API key is valid and has sufficient credits
-- Verify your internet connection
-- For vision models, ensure you're using a compatible model (e.g., gemini-pro-vision, gpt-4-vision-preview)
-- For PDF processing, ensure the PDF is not corrupted or password-protected
-- Try again in a few moments
-- Use /model to switch providers if the issue persists
-
-**Current Configuration:**
-- Provider: ${initialState.provider}
-- Model: ${initialState.model}
-- Base URL: ${initialState.baseURL || 'Default'}`;
     }
 
-    // Create AI response with unique ID
+    // Create AI response, reusing the ID of the streamed message so the bubble doesn't remount
     const aiMessage: ChatMessage = {
-      id: `ai-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      id: aiMessageId,
       role: 'ai',
       content: responseContent,
-      timestamp: new Date(),
-      codeBlocks
+      timestamp: aiMessageTimestamp,
+      codeBlocks,
+      stopped,
+      error,
+      // Command output isn't written by a model
+      ...(!userMessage.content.startsWith('/') && { provider: target.config.provider || undefined, model: target.config.model || undefined })
     };
 
     // Add AI response to chat messages
@@ -367,7 +419,165 @@ ${error instanceof Error ? error.message : 'Unknown error occurred'}
       return newMessages;
     });
     
+    setStreamingMessage(null);
     setIsTyping(false);
+
+    // The first successful exchange gives the conversation its title and summary
+    if (!conversation.summary && !autoTitledRef.current.has(conversationId)) {
+      const path = [...(history || chatMessages).filter(message => message.id !== userMessage.id), userMessage, aiMessage];
+      if (ConversationTitler.hasFirstExchange(path)) {
+        autoTitledRef.current.add(conversationId);
+        generateTitle(conversationId, path);
+      }
+    }
+  };
+
+  // Asks the active model to name a conversation; a title given by hand is only replaced when regenerating on request
+  const generateTitle = async (targetId: string, messages: ChatMessage[], regenerate = false) => {
+    if (!activeTarget.config.provider || !activeTarget.config.model) return;
+
+    setTitlingIds(prev => new Set(prev).add(targetId));
+    try {
+      const { title, summary } = await ConversationTitler.generate(activeTarget.config, messages);
+      onUpdateConversation(targetId, current => ({
+        ...current,
+        title: current.titleEdited && !regenerate ? current.title : title,
+        titleEdited: regenerate ? false : current.titleEdited,
+        summary: summary || current.summary
+      }));
+    } catch (error) {
+      console.error('Error generating conversation title:', error);
+      if (regenerate) {
+        addSystemMessage(`❌ Could not generate a title: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    } finally {
+      setTitlingIds(prev => {
+        const next = new Set(prev);
+        next.delete(targetId);
+        return next;
+      });
+    }
+  };
+
+  const handleRegenerateTitle = (targetId: string) => {
+    const target = conversations.find(candidate => candidate.id === targetId);
+    if (!target) return;
+
+    const path = ConversationTree.getActivePath(target.messages, target.activeLeafId);
+    if (!ConversationTitler.hasFirstExchange(path)) {
+      addSystemMessage('Nothing to name yet - a title can be generated once the conversation has a reply.');
+      return;
+    }
+    generateTitle(targetId, path, true);
+  };
+
+  // Switching from the header keeps the conversation and notes the change in the chat
+  const handleSelectProfile = (profileId: string) => {
+    const profile = profiles.find(candidate => candidate.id === profileId);
+    if (!profile) return;
+
+    onSelectProfile(profileId);
+    const switchMessage: ChatMessage = {
+      id: `system-profile-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      role: 'system',
+      content: `🔀 Switched to **${profile.name}** (${getProviderAdapter(profile.provider).label} · \`${profile.model}\`).`,
+      timestamp: new Date()
+    };
+    setChatMessages(prev => [...prev, switchMessage]);
+  };
+
+  // Drop the failed reply and ask again with the same history the original request had
+  const handleRetry = (errorMessageId: string) => {
+    const errorIndex = chatMessages.findIndex(message => message.id === errorMessageId);
+    let userIndex = errorIndex - 1;
+    while (userIndex >= 0 && !(chatMessages[userIndex].role === 'user' && ConversationBuilder.isConversationMessage(chatMessages[userIndex]))) {
+      userIndex--;
+    }
+    if (isTyping || errorIndex === -1 || userIndex < 0) return;
+
+    setChatMessages(prev => prev.filter(message => message.id !== errorMessageId));
+    simulateAIResponse(chatMessages[userIndex], chatMessages.slice(0, userIndex));
+  };
+
+  // The edited message becomes a sibling of the original, and the reply to it starts a new branch
+  const handleEditMessage = (messageId: string, content: string) => {
+    const index = chatMessages.findIndex(message => message.id === messageId);
+    if (isTyping || index === -1) return;
+
+    const original = chatMessages[index];
+    const edited: ChatMessage = {
+      ...original,
+      id: `user-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      content,
+      timestamp: new Date(),
+      parentId: chatMessages[index - 1]?.id ?? null
+    };
+    onUpdateConversation(conversationId, current => ({
+      ...current,
+      messages: [...current.messages, edited],
+      activeLeafId: edited.id,
+      updatedAt: new Date()
+    }));
+    simulateAIResponse(edited, chatMessages.slice(0, index));
+  };
+
+  // Answer the prompt of an AI reply again; the new reply becomes a sibling of the old one
+  const handleRegenerate = (aiMessageId: string, options: RegenerateOptions = {}) => {
+    const index = chatMessages.findIndex(message => message.id === aiMessageId);
+    let userIndex = index - 1;
+    while (userIndex >= 0 && !(chatMessages[userIndex].role === 'user' && ConversationBuilder.isConversationMessage(chatMessages[userIndex]))) {
+      userIndex--;
+    }
+    if (isTyping || index <= 0 || userIndex < 0 || chatMessages[userIndex].content.startsWith('/')) return;
+
+    // Go back to where the reply was added, so the new one is appended next to it
+    updateConversation({ activeLeafId: chatMessages[index - 1].id });
+    simulateAIResponse(chatMessages[userIndex], chatMessages.slice(0, userIndex), options);
+  };
+
+  // Show another version of a message, continuing with the latest reply in that branch
+  const handleSwitchVersion = (messageId: string, offset: number) => {
+    const siblings = ConversationTree.getSiblings(conversation.messages, messageId);
+    const target = siblings[siblings.findIndex(sibling => sibling.id === messageId) + offset];
+    if (isTyping || !target) return;
+
+    updateConversation({ activeLeafId: ConversationTree.getLatestLeaf(conversation.messages, target.id) });
+  };
+
+  // Open the conversation a search result is in, on a branch that shows the message
+  const handleOpenSearchResult = (result: SearchResult, query: string) => {
+    const { conversation: target, message } = result;
+    const path = ConversationTree.getActivePath(target.messages, target.activeLeafId);
+    if (!path.some(pathMessage => pathMessage.id === message.id)) {
+      onUpdateConversation(target.id, current => ({
+        ...current,
+        activeLeafId: ConversationTree.getLatestLeaf(current.messages, message.id)
+      }));
+    }
+    if (target.id !== conversationId) {
+      onSelectConversation(target.id);
+    }
+    setSearchHighlight({ conversationId: target.id, messageId: message.id, query });
+    setIsSearchOpen(false);
+  };
+
+  // Pinning a whole message, or one of its attachments when an attachment id is given
+  const handleTogglePin = (messageId: string, attachmentId?: string) => {
+    onUpdateConversation(conversationId, current => ({
+      ...current,
+      messages: current.messages.map(message => {
+        if (message.id !== messageId) return message;
+        if (!attachmentId) return { ...message, pinned: !message.pinned };
+        return {
+          ...message,
+          attachments: message.attachments?.map(attachment => attachment.id === attachmentId ? { ...attachment, pinned: !attachment.pinned } : attachment)
+        };
+      })
+    }));
+  };
+
+  const handleStopGeneration = () => {
+    generationAbortRef.current?.abort();
   };
 
   const handleCommand = (command: string): string => {
@@ -383,15 +593,18 @@ ${error instanceof Error ? error.message : 'Unknown error occurred'}
 
 **📋 Utility Commands:**
 - \`/copy\` - Copy all code blocks from last AI response to clipboard
-- \`/clear\` - Clear chat history
-- \`/model\` - Change AI provider/model
+- \`/clear\` - Clear the current conversation's history
+- \`/model\` - List provider profiles
+- \`/model <number|name>\` - Switch to another provider profile
+- \`/model new\` - Set up a new provider profile
 
 **💾 Session Commands:**
-- \`/savecon\` - Save entire conversation to markdown file
-- \`/loadcon\` - Load saved conversation from file
+- \`/savecon [md|json|html|pdf] [filename]\` - Save the conversation (markdown by default)
+- \`/savecon json --no-attachments\` - JSON archive without attachment images
+- \`/loadcon\` - Load a saved markdown or JSON conversation as a new conversation
 
 **📎 File Attachment Features:**
-- **Images**: Upload images for analysis with vision-capable models (Gemini Pro Vision, GPT-4V)
+- **Images**: Upload images for analysis with vision-capable models (Gemini 1.5+, GPT-4o, Claude 3+) - text-only models refuse them
 - **PDFs**: Automatically split into pages and converted to images for vision model analysis
 - **Documents**: Attach text files, code files for context-aware responses
 - **Supported formats**: Images (jpg, png, gif, webp), PDFs, Text files, Code files, JSON, CSV
@@ -405,6 +618,16 @@ ${error instanceof Error ? error.message : 'Unknown error occurred'}
 - Both images and text are sent to vision models for analysis
 - Perfect for analyzing documents, forms, diagrams, and technical papers
 
+**💬 Conversations:**
+- Use the conversation sidebar to create, rename, duplicate, archive and delete conversations
+- Each conversation keeps its own mode, system prompt, provider profile and generation parameters
+- Edit one of your earlier messages with the pencil icon to resend it as a new branch
+- Use the \`< 2/3 >\` arrows on a message to switch between its versions - only the branch on screen is sent as context
+- Regenerate an AI reply with ↻, or pick another profile or temperature from the arrow next to it - every alternative is kept
+- Pin a message or attachment with 📌 to always send it as context - pins are listed in the Pinned panel with their token cost
+- After the first reply the active model gives the conversation a title and a one-line summary - rename it by hand or regenerate it with ✨ in the sidebar
+- Search every conversation with the 🔍 button - filter by role, mode, model and date, and click a result to jump to it
+
 **⚙️ Custom System Prompt:**
 - Use the System Prompt panel to override default AI behavior in normal mode
 - Toggle ON/OFF to enable/disable custom system instructions
@@ -415,6 +638,7 @@ ${error instanceof Error ? error.message : 'Unknown error occurred'}
 - **Multiline Toggle**: Switch between single-line and multiline input modes
 - **Shift+Enter**: Add new line in multiline mode
 - **Enter**: Send message in both modes
+- **Esc / Stop button**: Stop the current generation - the partial response is kept
 
 **🎯 Mode Descriptions:**
 - **Normal**: Raw AI responses with previous conversation context and file attachments
@@ -436,12 +660,35 @@ Type any message, use commands, or attach files to start interacting!`;
 
       case '/clear':
         // Clear messages immediately
-        setChatMessages([]);
+        clearChatMessages();
         return 'Chat cleared successfully.';
 
-      case '/model':
-        onChangeProvider();
-        return 'Switching AI provider...';
+      case '/model': {
+        const target = args.join(' ').trim();
+
+        if (!target) {
+          const profileList = profiles
+            .map((profile, index) => `${index + 1}. ${profile.id === activeProfile.id ? '**' : ''}${profile.name}${profile.id === activeProfile.id ? '** (active)' : ''} - ${getProviderAdapter(profile.provider).label} · \`${profile.model}\``)
+            .join('\n');
+          return `**Provider profiles:**\n${profileList}\n\n**Active model:** \`${initialState.model}\` - ${ModelCapabilityRegistry.describe(modelCapabilities)}\n\nUse \`/model <number|name>\` to switch or \`/model new\` to add a profile.`;
+        }
+
+        if (target === 'new') {
+          onAddProfile();
+          return 'Opening provider setup...';
+        }
+
+        const index = parseInt(target, 10);
+        const profile = /^\d+$/.test(target)
+          ? profiles[index - 1]
+          : profiles.find(candidate => candidate.name.toLowerCase() === target.toLowerCase());
+        if (!profile) {
+          return `❌ No provider profile matches **${target}**. Type \`/model\` to list profiles.`;
+        }
+
+        onSelectProfile(profile.id);
+        return `🔀 Switched to **${profile.name}** (${getProviderAdapter(profile.provider).label} · \`${profile.model}\`).`;
+      }
 
       case '/copy':
         const lastMessage = chatMessages[chatMessages.length - 1];
@@ -462,28 +709,30 @@ Type any message, use commands, or attach files to start interacting!`;
         setCurrentMode(newWebappMode);
         return `🌐 Webapp mode ${newWebappMode === 'webapp' ? '**enabled**' : '**disabled**'}. AI will now ${newWebappMode === 'webapp' ? 'provide a single HTML file with embedded CSS/JS without explanations (with conversation context and file attachments)' : 'provide raw responses with conversation context and file attachments'}.`;
 
-      case '/savecon':
-        handleSaveConversation();
-        return '✅ Conversation export initiated. Check your downloads folder.';
+      case '/savecon': {
+        // /savecon [md|json|html|pdf] [filename] [--no-attachments] - without a format, the filename's extension picks one
+        const embedAttachments = !args.includes('--no-attachments');
+        const rest = args.filter(arg => arg && arg !== '--no-attachments');
+        let format: ExportFormat = 'md';
+        if (rest.length > 0 && ConversationExporter.isFormat(rest[0].toLowerCase())) {
+          format = rest.shift()!.toLowerCase() as ExportFormat;
+        } else {
+          const extension = rest.join(' ').split('.').pop()?.toLowerCase() || '';
+          if (ConversationExporter.isFormat(extension)) format = extension;
+        }
+        const filename = rest.join(' ') || undefined;
 
-      default:
-        return `❌ Unknown command: **${cmd}**. Type \`/help\` for available commands.`;
-    }
-  };
+        handleExport(format, filename, embedAttachments);
+        return `✅ Saving the conversation as ${format.toUpperCase()}. Check your downloads folder.`;
+      }
 
-  const extractCodeBlocks = (content: string): CodeBlock[] => {
-    const codeBlockRegex = /```(\w+)?\n([\s\S]*?)```/g;
-    const blocks: CodeBlock[] = [];
-    let match;
+      case '/loadcon':
+        loadInputRef.current?.click();
+        return '📂 Choose a markdown (.md) or JSON archive (.json) file to load. It opens as a new conversation.';
 
-    while ((match = codeBlockRegex.exec(content)) !== null) {
-      blocks.push({
-        language: match[1] || 'text',
-        code: match[2].trim()
-      });
+      default:
+        return `❌ Unknown command: **${cmd}**. Type \`/help\` for available commands.`;
     }
-
-    return blocks;
   };
 
   const copyToClipboard = async (text: string) => {
@@ -495,13 +744,16 @@ Type any message, use commands, or attach files to start interacting!`;
   };
 
   const handleSendMessage = (message: string, attachments?: FileAttachment[]) => {
+    setSearchHighlight(null);
+
     // Create user message with full attachments for display
     const userMessage: ChatMessage = {
       id: `user-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       role: 'user',
       content: message,
       timestamp: new Date(),
-      attachments: attachments // Keep full attachments for display
+      attachments: attachments, // Keep full attachments for display
+      mode: currentMode
     };
 
     // Add user message to chat immediately
@@ -511,11 +763,12 @@ Type any message, use commands, or attach files to start interacting!`;
       return newMessages;
     });
     
-    // Pass the original attachments with full data to AI processing
-    simulateAIResponse(message, attachments);
+    // The message carries the full attachment data for AI processing
+    simulateAIResponse(userMessage);
   };
 
   const handleCommandExecute = (command: string, args: string[]) => {
+    setSearchHighlight(null);
     const fullCommand = `${command} ${args.join(' ')}`.trim();
     
     // Create user message for the command
@@ -552,86 +805,106 @@ Type any message, use commands, or attach files to start interacting!`;
     });
   };
 
-  const handleSaveConversation = () => {
-    const conversation = chatMessages.map(msg => {
-      let content = `## ${msg.role.charAt(0).toUpperCase() + msg.role.slice(1)}\n${msg.content}`;
-      
-      // Add attachment info to saved conversation
-      if (msg.attachments && msg.attachments.length > 0) {
-        content += '\n\n**Attachments:**\n';
-        msg.attachments.forEach((att, index) => {
-          content += `${index + 1}. ${att.name} (${att.type}, ${Math.round(att.size / 1024)}KB)`;
-          if (att.documentPages) {
-            content += ` - PDF with ${att.documentPages.length} pages converted to images`;
-          }
-          content += '\n';
-        });
-      }
-      
-      return content + '\n';
-    }).join('\n');
-    
-    const blob = new Blob([`# Chat Conversation\n\n${conversation}`], { type: 'text/markdown' });
+  const downloadFile = (content: BlobPart, filename: string, type: string) => {
+    const blob = new Blob([content], { type });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `chat-conversation-${new Date().toISOString().replace(/[:.]/g, '-')}.md`;
+    a.download = filename;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
+  };
 
-    const saveMessage: ChatMessage = {
-      id: `system-save-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+  const addSystemMessage = (content: string) => {
+    const message: ChatMessage = {
+      id: `system-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       role: 'system',
-      content: 'Conversation saved to markdown file successfully.',
+      content,
       timestamp: new Date()
     };
-    setChatMessages(prev => [...prev, saveMessage]);
+    setChatMessages(prev => [...prev, message]);
   };
 
-  const handleLoadConversation = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  // Markdown, a lossless JSON archive (with or without the attachment images), standalone HTML or PDF
+  const handleExport = async (format: ExportFormat, filename?: string, embedAttachments = true) => {
+    const name = ConversationExporter.getFilename(format, filename, conversation.title);
+    try {
+      switch (format) {
+        case 'md':
+          downloadFile(ConversationExporter.toMarkdown(conversation), name, 'text/markdown');
+          break;
+        case 'json': {
+          const archive = await ConversationArchive.create(conversation, embedAttachments);
+          downloadFile(ConversationArchive.serialize(archive), name, 'application/json');
+          break;
+        }
+        case 'html':
+          downloadFile(await ConversationExporter.toHTML(conversation), name, 'text/html');
+          break;
+        case 'pdf':
+          downloadFile(await ConversationExporter.toPDF(conversation), name, 'application/pdf');
+          break;
+      }
+      addSystemMessage(`Conversation saved to **${name}**${format === 'json' && !embedAttachments ? ' without attachment images' : ''}.`);
+    } catch (error) {
+      addSystemMessage(`❌ Could not export the conversation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const content = e.target?.result as string;
-      // Parse markdown conversation format
-      const sections = content.split(/## (User|Ai|System)/i);
-      const newMessages: ChatMessage[] = [];
-      
-      for (let i = 1; i < sections.length; i += 2) {
-        const role = sections[i].toLowerCase() as 'user' | 'ai' | 'system';
-        const messageContent = sections[i + 1]?.trim();
-        
-        if (messageContent) {
-          newMessages.push({
-            id: `loaded-${Date.now()}-${i}-${Math.random().toString(36).substr(2, 9)}`,
+  // Loaded files open as a new conversation - JSON archives with their settings restored, markdown transcripts as plain messages
+  const importConversation = (content: string, fileName: string) => {
+    try {
+      let imported: Partial<Conversation>;
+      let note = '';
+
+      if (fileName.toLowerCase().endsWith('.json')) {
+        const archive = ConversationArchive.parse(content);
+        imported = ConversationArchive.toConversation(archive);
+        if (!archive.attachmentsEmbedded) {
+          note = ' The archive was saved without attachment images, so only their names and text are available.';
+        }
+      } else {
+        const timestamp = new Date();
+        imported = {
+          title: fileName.replace(/\.md$/i, ''),
+          messages: ConversationExporter.parseMarkdown(content).map(({ role, content: messageContent }, index) => ({
+            id: `loaded-${Date.now()}-${index}-${Math.random().toString(36).substr(2, 9)}`,
             role,
             content: messageContent,
-            timestamp: new Date(),
-            codeBlocks: extractCodeBlocks(messageContent)
-          });
-        }
+            timestamp,
+            codeBlocks: CodeFences.extract(messageContent)
+          }))
+        };
       }
-      
-      setChatMessages(newMessages);
-      
-      const loadMessage: ChatMessage = {
+
+      const messages = imported.messages || [];
+      const importMessage: ChatMessage = {
         id: `system-load-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
         role: 'system',
-        content: `Conversation loaded from ${file.name} successfully. ${newMessages.length} messages restored.`,
+        content: `Conversation loaded from ${fileName} successfully. ${messages.length} messages restored.${note}`,
         timestamp: new Date()
       };
-      setChatMessages(prev => [...prev, loadMessage]);
-    };
-    
+      onImportConversation({ ...imported, messages: [...messages, importMessage] });
+    } catch (error) {
+      addSystemMessage(`❌ Could not load ${fileName}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleLoadConversation = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    // Allow loading the same file again
+    event.target.value = '';
+
+    const reader = new FileReader();
+    reader.onload = (e) => importConversation(e.target?.result as string, file.name);
     reader.readAsText(file);
   };
 
   const handleClearChat = () => {
-    setChatMessages([]);
+    clearChatMessages();
     
     // Add a confirmation message that persists
     const clearMessage: ChatMessage = {
@@ -649,9 +922,26 @@ Type any message, use commands, or attach files to start interacting!`;
         {/* Header */}
         <div className="bg-black/40 backdrop-blur-sm border border-green-500/20 rounded-lg p-3 sm:p-4 flex items-center justify-between flex-shrink-0">
           <div className="flex items-center space-x-4">
+            <button
+              onClick={() => setShowConversations(!showConversations)}
+              className="p-2 text-gray-400 hover:text-green-400 transition-colors duration-200"
+              title={showConversations ? 'Hide conversations' : 'Show conversations'}
+            >
+              {showConversations ? <PanelLeftClose className="w-4 h-4" /> : <PanelLeft className="w-4 h-4" />}
+            </button>
             <h1 className="text-green-400 font-mono text-xl font-bold">11ku7 AI Chat</h1>
-            <div className="text-gray-400 font-mono text-sm hidden sm:block"> {/* Hide on smaller screens */}
-              Connected to {initialState.provider} ({initialState.model})
+            <ProfileSwitcher
+              profiles={profiles}
+              activeProfileId={activeProfile.id}
+              onSelectProfile={handleSelectProfile}
+              onAddProfile={onAddProfile}
+              onDeleteProfile={onDeleteProfile}
+            />
+            <div
+              className="text-gray-400 font-mono text-sm hidden sm:block" /* Hide on smaller screens */
+              title={ModelCapabilityRegistry.describe(modelCapabilities)}
+            >
+              {providerLabel} ({initialState.model})
             </div>
             {systemPromptEnabled && (
               <div className="text-green-400 font-mono text-xs bg-green-500/10 px-2 py-1 rounded border border-green-500/20 hidden sm:block"> {/* Hide on smaller screens */}
@@ -661,6 +951,14 @@ Type any message, use commands, or attach files to start interacting!`;
           </div>
           
           <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setIsSearchOpen(true)}
+              className="p-2 text-gray-400 hover:text-green-400 transition-colors duration-200"
+              title="Search Conversations"
+            >
+              <Search className="w-4 h-4" />
+            </button>
+
             {/* Clear Chat Button */}
             <button
               onClick={handleClearChat}
@@ -671,28 +969,39 @@ Type any message, use commands, or attach files to start interacting!`;
             </button>
             
             {/* Save/Load Conversation */}
-            <button
-              onClick={handleSaveConversation}
-              className="p-2 text-gray-400 hover:text-green-400 transition-colors duration-200"
-              title="Save Conversation"
-            >
-              <Download className="w-4 h-4" />
-            </button>
+            <ExportMenu
+              options={[
+                { label: 'Markdown (.md)', description: 'Readable transcript, attachment names only', onSelect: () => handleExport('md') },
+                { label: 'JSON archive (.json)', description: 'Everything, including attachments - can be imported again', onSelect: () => handleExport('json') },
+                { label: 'JSON without attachments', description: 'Smaller archive without image and PDF page data', onSelect: () => handleExport('json', undefined, false) },
+                { label: 'HTML page (.html)', description: 'Single self-contained file with highlighted code and images, works offline', onSelect: () => handleExport('html') },
+                { label: 'PDF (.pdf)', description: 'Printable transcript with images', onSelect: () => handleExport('pdf') }
+              ]}
+            />
             
             <label className="p-2 text-gray-400 hover:text-green-400 transition-colors duration-200 cursor-pointer" title="Load Conversation">
               <Upload className="w-4 h-4" />
               <input
+                ref={loadInputRef}
                 type="file"
-                accept=".md"
+                accept=".md,.json"
                 onChange={handleLoadConversation}
                 className="hidden"
               />
             </label>
             
             <button
-              onClick={onChangeProvider}
+              onClick={onOpenVault}
+              className={`p-2 transition-colors duration-200 ${vaultStatus === 'unlocked' ? 'text-green-400' : 'text-gray-400 hover:text-green-400'}`}
+              title={vaultStatus === 'none' ? 'API Key Vault' : vaultStatus === 'unlocked' ? 'API Key Vault (unlocked)' : 'API Key Vault (locked)'}
+            >
+              {vaultStatus === 'unlocked' ? <ShieldCheck className="w-4 h-4" /> : <Shield className="w-4 h-4" />}
+            </button>
+            
+            <button
+              onClick={onAddProfile}
               className="p-2 text-gray-400 hover:text-green-400 transition-colors duration-200"
-              title="Change Provider"
+              title="New Provider Profile"
             >
               <Settings className="w-4 h-4" />
             </button>
@@ -701,7 +1010,26 @@ Type any message, use commands, or attach files to start interacting!`;
 
         {/* Main Content */}
         <div className="flex-1 grid grid-cols-1 md:grid-cols-12 gap-4 min-h-0">
-          {/* Left Sidebar - Mode Selector and System Prompt */}
+          {/* Conversation list - can be collapsed from the header */}
+          {showConversations && (
+            <div className="col-span-12 md:col-span-2 h-64 md:h-auto min-h-0">
+              <ConversationSidebar
+                conversations={conversations}
+                activeConversationId={conversationId}
+                storageUsage={storageUsage}
+                onSelect={onSelectConversation}
+                onCreate={onCreateConversation}
+                onRename={onRenameConversation}
+                onRegenerateTitle={handleRegenerateTitle}
+                titlingIds={titlingIds}
+                onDuplicate={onDuplicateConversation}
+                onArchive={onArchiveConversation}
+                onDelete={onDeleteConversation}
+              />
+            </div>
+          )}
+
+          {/* Left Sidebar - Mode Selector, System Prompt and Generation Parameters */}
           <div className="col-span-12 md:col-span-3 flex flex-col space-y-4 min-h-0">
             {/* Mode Selector - Fixed height */}
             <div className="h-auto md:h-80">
@@ -722,16 +1050,53 @@ Type any message, use commands, or attach files to start interacting!`;
                 />
               </div>
             )}
+
+            {providerAdapter && (
+              <div className={`flex-shrink-0 ${currentMode === 'none' ? 'max-h-[50%]' : 'flex-1'} min-h-0 flex flex-col`}>
+                <GenerationParamsPanel
+                  params={generationParams[currentMode] || {}}
+                  defaults={{ ...providerAdapter.defaultParams, ...modelDefaultParams }}
+                  supportedParams={providerAdapter.supportedParams}
+                  providerLabel={providerLabel}
+                  mode={currentMode}
+                  onChange={(params) => setGenerationParams({ ...generationParams, [currentMode]: params })}
+                />
+              </div>
+            )}
           </div>
 
           {/* Right Side - Chat Area and Input */}
-          <div className="col-span-12 md:col-span-9 flex flex-col space-y-4 min-h-0">
+          <div className={`col-span-12 ${showConversations ? 'md:col-span-7' : 'md:col-span-9'} flex flex-col space-y-4 min-h-0`}>
+            {pinnedItems.length > 0 && (
+              <div className="flex-shrink-0">
+                <PinnedPanel
+                  items={pinnedItems}
+                  usage={contextUsage}
+                  provider={activeTarget.config.provider}
+                  onUnpin={handleTogglePin}
+                  onShow={(messageId) => setSearchHighlight({ conversationId, messageId, query: '' })}
+                />
+              </div>
+            )}
+
             {/* Chat Area */}
             <div className="flex-1 min-h-0">
               <ChatArea
                 messages={chatMessages}
                 isTyping={isTyping}
+                streamingMessage={streamingMessage}
+                contextUsage={contextUsage}
                 onCopyCode={copyToClipboard}
+                onRetry={handleRetry}
+                versionInfo={versionInfo}
+                onSwitchVersion={handleSwitchVersion}
+                onEditMessage={handleEditMessage}
+                onRegenerate={handleRegenerate}
+                regenerateProfiles={regenerateProfiles}
+                activeProfileId={activeProfile.id}
+                currentTemperature={getGenerationParams(currentMode).temperature ?? providerAdapter?.defaultParams.temperature}
+                highlight={searchHighlight?.conversationId === conversationId ? searchHighlight : null}
+                onTogglePin={handleTogglePin}
               />
             </div>
 
@@ -742,11 +1107,22 @@ Type any message, use commands, or attach files to start interacting!`;
                 currentMode={currentMode}
                 isTyping={isTyping}
                 onCommandExecute={handleCommandExecute}
+                onStopGeneration={handleStopGeneration}
+                model={initialState.model || ''}
+                modelCapabilities={modelCapabilities}
               />
             </div>
           </div>
         </div>
       </div>
+
+      {isSearchOpen && (
+        <SearchPanel
+          conversations={conversations}
+          onOpenResult={handleOpenSearchResult}
+          onClose={() => setIsSearchOpen(false)}
+        />
+      )}
     </div>
   );
 };
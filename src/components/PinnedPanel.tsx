@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { Pin, PinOff, ChevronDown, ChevronRight, Paperclip } from 'lucide-react';
+import { ChatMessage, ContextUsage, Provider } from '../types';
+import { ContextManager } from '../utils/contextManager';
+
+interface PinnedPanelProps {
+  items: ChatMessage[]; // From ContextManager.getPinnedItems
+  usage: ContextUsage;
+  provider?: Provider | null;
+  onUnpin: (messageId: string, attachmentId?: string) => void;
+  onShow: (messageId: string) => void;
+}
+
+const ROLE_LABELS: Record<ChatMessage['role'], string> = {
+  user: 'You',
+  ai: 'AI',
+  system: 'System'
+};
+
+const PinnedPanel: React.FC<PinnedPanelProps> = ({ items, usage, provider, onUnpin, onShow }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const sharePercent = Math.round((usage.pinnedTokens / usage.limitTokens) * 100);
+
+  return (
+    <div className="bg-black/40 backdrop-blur-sm border border-yellow-500/20 rounded-lg">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between p-2 px-3 text-left"
+      >
+        <span className="flex items-center text-yellow-400 font-mono text-xs font-semibold">
+          {isExpanded ? <ChevronDown className="w-3 h-3 mr-1" /> : <ChevronRight className="w-3 h-3 mr-1" />}
+          <Pin className="w-3 h-3 mr-1.5" />
+          Pinned ({items.length})
+        </span>
+        <span
+          className={`font-mono text-xs ${sharePercent > 50 ? 'text-red-400' : 'text-gray-400'}`}
+          title="Pinned items are sent with every message and count against the context window"
+        >
+          ~{usage.pinnedTokens.toLocaleString()} tokens · {sharePercent}% of context
+        </span>
+      </button>
+
+      {isExpanded && (
+        <div className="border-t border-yellow-500/20 p-2 space-y-1 max-h-48 overflow-y-auto">
+          {items.map(item => {
+            // Whole messages are unpinned at once; otherwise each pinned attachment has its own row
+            const rows = item.pinned
+              ? [{ key: item.id, label: item.content.replace(/\s+/g, ' ').trim(), attachmentId: undefined, tokens: ContextManager.estimateMessageTokens(item, provider) }]
+              : (item.attachments || []).map(attachment => ({
+                key: attachment.id,
+                label: attachment.name,
+                attachmentId: attachment.id,
+                tokens: ContextManager.estimateMessageTokens({ ...item, attachments: [attachment] }, provider)
+              }));
+
+            return rows.map(row => (
+              <div key={row.key} className="flex items-center space-x-2 p-1.5 rounded hover:bg-gray-800/50">
+                <button
+                  onClick={() => onShow(item.id)}
+                  className="flex-1 min-w-0 flex items-center space-x-2 text-left"
+                  title="Show in chat"
+                >
+                  <span className="text-gray-500 font-mono text-xs flex-shrink-0">{ROLE_LABELS[item.role]}</span>
+                  {row.attachmentId && <Paperclip className="w-3 h-3 text-gray-400 flex-shrink-0" />}
+                  <span className="text-gray-300 font-mono text-xs truncate">{row.label}</span>
+                </button>
+                <span className="text-gray-500 font-mono text-xs flex-shrink-0">~{row.tokens.toLocaleString()}</span>
+                <button
+                  onClick={() => onUnpin(item.id, row.attachmentId)}
+                  className="p-0.5 text-gray-500 hover:text-red-400 transition-colors duration-200 flex-shrink-0"
+                  title="Unpin"
+                >
+                  <PinOff className="w-3 h-3" />
+                </button>
+              </div>
+            ));
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PinnedPanel;
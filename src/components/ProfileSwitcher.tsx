@@ -0,0 +1,101 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ChevronDown, Check, Plus, Trash2 } from 'lucide-react';
+import { ProviderProfile } from '../types';
+import { getProviderAdapter } from '../providers';
+
+interface ProfileSwitcherProps {
+  profiles: ProviderProfile[];
+  activeProfileId: string | null;
+  onSelectProfile: (profileId: string) => void;
+  onAddProfile: () => void;
+  onDeleteProfile: (profileId: string) => void;
+}
+
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({
+  profiles,
+  activeProfileId,
+  onSelectProfile,
+  onAddProfile,
+  onDeleteProfile
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const activeProfile = profiles.find(profile => profile.id === activeProfileId);
+
+  // Close the dropdown when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center space-x-2 px-2 py-1 text-gray-400 hover:text-green-400 font-mono text-sm border border-gray-700 hover:border-green-500/50 rounded transition-colors duration-200"
+        title="Switch provider profile"
+      >
+        <span className="truncate max-w-[10rem] sm:max-w-xs">
+          {activeProfile ? activeProfile.name : 'No profile'}
+        </span>
+        <ChevronDown className={`w-3 h-3 transition-transform duration-200 ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full left-0 mt-1 w-72 bg-gray-900 border border-gray-700 rounded-lg shadow-xl z-20 max-h-80 overflow-y-auto">
+          {profiles.map(profile => (
+            <div
+              key={profile.id}
+              className="flex items-center border-b border-gray-700 last:border-b-0 hover:bg-gray-800 transition-colors duration-200 group"
+            >
+              <button
+                onClick={() => {
+                  setIsOpen(false);
+                  if (profile.id !== activeProfileId) {
+                    onSelectProfile(profile.id);
+                  }
+                }}
+                className="flex-1 min-w-0 p-3 text-left"
+              >
+                <div className="flex items-center space-x-2">
+                  {profile.id === activeProfileId && <Check className="w-3 h-3 text-green-400 flex-shrink-0" />}
+                  <span className="text-green-400 font-mono text-sm truncate">{profile.name}</span>
+                </div>
+                <div className="text-gray-500 text-xs font-mono mt-1 truncate">
+                  {getProviderAdapter(profile.provider).label} · {profile.model}
+                </div>
+              </button>
+              <button
+                onClick={() => onDeleteProfile(profile.id)}
+                className="p-3 opacity-0 group-hover:opacity-100 text-gray-500 hover:text-red-400 transition-all duration-200"
+                title="Delete profile"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => {
+              setIsOpen(false);
+              onAddProfile();
+            }}
+            className="w-full p-3 text-left text-gray-400 hover:text-green-400 hover:bg-gray-800 transition-colors duration-200 font-mono text-sm flex items-center space-x-2"
+          >
+            <Plus className="w-4 h-4" />
+            <span>New profile...</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfileSwitcher;
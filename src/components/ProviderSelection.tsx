@@ -1,122 +1,92 @@
 import React, { useState, useEffect } from 'react';
-import { Provider } from '../types';
-import { Terminal, Globe, Key, Check, X, ChevronDown, Plus } from 'lucide-react';
+import { ModelInfo, ProviderAdapter, ProviderPreset, ProviderProfile } from '../types';
+import { providerAdapters } from '../providers';
+import { ModelCapabilityRegistry } from '../utils/modelCapabilities';
+import { Terminal, Globe, Key, Check, X, ChevronDown, Plus, Eye } from 'lucide-react';
 
 interface ProviderSelectionProps {
-  onProviderSelect: (provider: Provider, model: string, apiKey: string, baseURL?: string) => void;
+  onProfileCreate: (profile: Omit<ProviderProfile, 'id' | 'keyRef'>, apiKey: string) => void;
+  onCancel?: () => void; // Offered when there is already an active profile to return to
+  showSplash?: boolean;
 }
 
-interface OpenAIProvider {
-  name: string;
-  baseURL: string;
-  description: string;
-  requiresApiKey: boolean;
-  isCustom?: boolean;
-  fetchModels?: boolean; // New property to indicate if we should fetch models
-}
-
-const openAIProviders: OpenAIProvider[] = [
-  {
-    name: 'OpenAI',
-    baseURL: 'https://api.openai.com/v1',
-    description: 'Official OpenAI API',
-    requiresApiKey: true,
-    fetchModels: true
-  },
-  {
-    name: 'OpenRouter',
-    baseURL: 'https://openrouter.ai/api/v1',
-    description: 'Access to multiple AI models through OpenRouter',
-    requiresApiKey: true
-  },
-  {
-    name: 'Ollama',
-    baseURL: 'http://localhost:11434/v1',
-    description: 'Local Ollama instance (no API key required)',
-    requiresApiKey: false,
-    fetchModels: true // ADDED: Indicate that Ollama models should be fetched
-  },
-  {
-    name: 'Custom Provider',
-    baseURL: '',
-    description: 'Enter your own API endpoint URL',
-    requiresApiKey: true,
-    isCustom: true
-  }
-];
-
-const ProviderSelection: React.FC<ProviderSelectionProps> = ({ onProviderSelect }) => {
-  const [selectedProvider, setSelectedProvider] = useState<Provider | null>(null);
-  const [availableModels, setAvailableModels] = useState<string[]>([]);
+const ProviderSelection: React.FC<ProviderSelectionProps> = ({ onProfileCreate, onCancel, showSplash = true }) => {
+  const [selectedAdapter, setSelectedAdapter] = useState<ProviderAdapter | null>(null);
+  const [availableModels, setAvailableModels] = useState<ModelInfo[]>([]);
   const [selectedModel, setSelectedModel] = useState<string>('');
   const [apiKey, setApiKey] = useState<string>('');
   const [baseURL, setBaseURL] = useState<string>('');
   const [customBaseURL, setCustomBaseURL] = useState<string>('');
-  const [selectedOpenAIProvider, setSelectedOpenAIProvider] = useState<OpenAIProvider | null>(null);
-  const [showProviderDropdown, setShowProviderDropdown] = useState(false);
-  const [step, setStep] = useState<'provider' | 'openai-provider' | 'custom-url' | 'apikey' | 'model'>('provider');
+  const [selectedPreset, setSelectedPreset] = useState<ProviderPreset | null>(null);
+  const [showPresetDropdown, setShowPresetDropdown] = useState(false);
+  const [step, setStep] = useState<'provider' | 'preset' | 'custom-url' | 'apikey' | 'model'>('provider');
   const [isLoading, setIsLoading] = useState(false);
-  const [showLogo, setShowLogo] = useState(true);
+  const [showLogo, setShowLogo] = useState(showSplash);
   const [error, setError] = useState<string>('');
+  const [profileName, setProfileName] = useState<string>('');
+  const [defaultTemperature, setDefaultTemperature] = useState<string>('');
+  const [defaultMaxTokens, setDefaultMaxTokens] = useState<string>('');
 
   useEffect(() => {
+    if (!showSplash) return;
     const timer = setTimeout(() => setShowLogo(false), 2000);
     return () => clearTimeout(timer);
-  }, []);
+  }, [showSplash]);
+
+  // Presets decide for themselves whether models are fetched; standalone providers always list them
+  const fetchesModels = !selectedPreset || !!selectedPreset.fetchModels;
 
-  const handleProviderSelect = (provider: Provider) => {
-    setSelectedProvider(provider);
+  const handleProviderSelect = (adapter: ProviderAdapter) => {
+    setSelectedAdapter(adapter);
+    setBaseURL(adapter.defaultBaseURL || '');
     setError('');
     
-    if (provider === 'OpenAI') {
-      setStep('openai-provider');
+    if (adapter.presets) {
+      setStep('preset');
     } else {
       setStep('apikey');
     }
   };
 
-  const handleOpenAIProviderSelect = async (provider: OpenAIProvider) => {
-    setSelectedOpenAIProvider(provider);
-    setShowProviderDropdown(false);
+  const fetchModels = async (adapter: ProviderAdapter, key: string, url: string, preset?: ProviderPreset) => {
+    const models = await adapter.listModels({ provider: adapter.id, model: '', apiKey: key, baseURL: url || undefined }, preset);
+    if (models.length === 0) {
+      throw new Error('No compatible models found. Check your API key.');
+    }
+    setAvailableModels(models);
+    setStep('model');
+  };
+
+  const handlePresetSelect = async (preset: ProviderPreset) => {
+    setSelectedPreset(preset);
+    setShowPresetDropdown(false);
     setError(''); // Clear error
     
-    setBaseURL(provider.baseURL); // Sets the base URL for chat requests (e.g., http://localhost:11434/v1 for Ollama)
+    setBaseURL(preset.baseURL); // Sets the base URL for chat requests (e.g., http://localhost:11434/v1 for Ollama)
     
-    if (provider.isCustom) {
+    if (preset.isCustom) {
       setStep('custom-url'); // Custom providers still need URL input
-    } else {
-      setIsLoading(true); 
-      
-      if (provider.name === 'Ollama') { 
-        setApiKey('ollama-local'); // Set a placeholder value for Ollama
-        try {
-          // MODIFIED: Fetch Ollama models from the /api/tags endpoint
-          const response = await fetch(`http://localhost:11434/api/tags`); 
-          if (!response.ok) {
-            throw new Error(`HTTP ${response.status}: ${response.statusText}. Please ensure Ollama server is running at ${provider.baseURL.replace('/v1', '')}.`);
-          }
-          const data = await response.json();
-          if (!data.models || !Array.isArray(data.models)) {
-            throw new Error('Invalid response format from Ollama API.');
-          }
-          const models = data.models.map((model: any) => model.name);
-          if (models.length === 0) {
-            throw new Error('No models found on Ollama server. Please download models (e.g., `ollama pull llama2`).');
-          }
-          setAvailableModels(models);
-          setStep('model'); // Go directly to model selection after fetching
-        } catch (error: any) {
-          setError(`Failed to connect to Ollama: ${error.message}`);
-          setSelectedOpenAIProvider(null); // Revert selection
-          setStep('openai-provider'); // Stay on this step
-        } finally {
-          setIsLoading(false);
-        }
-      } else {
-        // For other providers requiring API key, go to API key step
-        setStep('apikey');
-        setIsLoading(false); // Stop loading before showing API key input
+    } else if (!preset.requiresApiKey) {
+      // Keyless providers (e.g. local Ollama) skip the API key step entirely
+      setApiKey('');
+      if (!preset.fetchModels) {
+        setStep('model');
+        return;
       }
+
+      setIsLoading(true);
+      try {
+        await fetchModels(selectedAdapter!, '', preset.baseURL, preset);
+      } catch (error) {
+        setError(`Failed to connect to ${preset.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        setSelectedPreset(null); // Revert selection
+        setStep('preset'); // Stay on this step
+      } finally {
+        setIsLoading(false);
+      }
+    } else {
+      // For other providers requiring API key, go to API key step
+      setStep('apikey');
     }
   };
 
@@ -139,102 +109,42 @@ const ProviderSelection: React.FC<ProviderSelectionProps> = ({ onProviderSelect
     }
     
     setError('');
+
+    if (!fetchesModels) {
+      // For OpenRouter or a custom provider, directly proceed to model name entry
+      setStep('model');
+      return;
+    }
+
     setIsLoading(true);
-    
-    // Gemini model fetching
-    if (selectedProvider === 'Gemini') {
-      try {
-        const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models?key=${apiKey}`);
-        
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-        }
-        
-        const data = await response.json();
-        
-        if (!data.models || !Array.isArray(data.models)) {
-          throw new Error('Invalid response format from Gemini API');
-        }
-        
-        const models = data.models
-          .filter((model: any) => model.supportedGenerationMethods?.includes('generateContent'))
-          .map((model: any) => model.name.split('/')[1]);
-        
-        if (models.length === 0) {
-          throw new Error('No compatible models found. Check your API key.');
-        }
-        
-        setAvailableModels(models);
-        setStep('model');
-      } catch (error: any) {
-        setError(`Error fetching Gemini models: ${error.message}`);
-        setApiKey('');
-      } finally {
-        setIsLoading(false);
-      }
-    } 
-    // MODIFIED: Only fetch for official OpenAI if it has fetchModels
-    else if (selectedProvider === 'OpenAI' && selectedOpenAIProvider?.name === 'OpenAI' && selectedOpenAIProvider?.fetchModels) {
-      // Fetch OpenAI models
-      try {
-        const response = await fetch(`${baseURL}/models`, {
-          headers: {
-            'Authorization': `Bearer ${apiKey}`,
-            'Content-Type': 'application/json'
-          }
-        });
-        
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-        }
-        
-        const data = await response.json();
-        
-        if (!data.data || !Array.isArray(data.data)) {
-          throw new Error('Invalid response format from OpenAI API');
-        }
-        
-        // Filter and sort models - prioritize GPT models and commonly used ones
-        const models = data.data
-          .map((model: any) => model.id)
-          .filter((modelId: string) => {
-            // Filter out fine-tuned models and system models
-            return !modelId.includes(':') && !modelId.startsWith('system-');
-          })
-          .sort((a: string, b: string) => {
-            // Prioritize GPT models
-            const aIsGPT = a.includes('gpt');
-            const bIsGPT = b.includes('gpt');
-            
-            if (aIsGPT && !bIsGPT) return -1;
-            if (!aIsGPT && bIsGPT) return 1;
-            
-            // Then sort alphabetically
-            return a.localeCompare(b);
-          });
-        
-        if (models.length === 0) {
-          throw new Error('No compatible models found. Check your API key.');
-        }
-        
-        setAvailableModels(models);
-        setStep('model');
-      } catch (error: any) {
-        setError(`Error fetching OpenAI models: ${error.message}`);
-        setApiKey('');
-      } finally {
-        setIsLoading(false);
-      }
-    } else {
-      // For OpenRouter, Custom Provider, or Ollama (which fetched earlier), directly proceed to model step
+    try {
+      await fetchModels(selectedAdapter!, apiKey, baseURL, selectedPreset || undefined);
+    } catch (error) {
+      setError(`Error fetching ${selectedPreset?.name || selectedAdapter?.label} models: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setApiKey('');
+    } finally {
       setIsLoading(false);
-      setStep('model');
     }
   };
 
   const handleModelSelect = (model: string) => {
     setSelectedModel(model);
-    onProviderSelect(selectedProvider!, model, apiKey, selectedProvider === 'OpenAI' ? baseURL : undefined);
+
+    const temperature = parseFloat(defaultTemperature);
+    const maxOutputTokens = parseInt(defaultMaxTokens, 10);
+    onProfileCreate({
+      name: profileName.trim() || `${selectedPreset?.name || selectedAdapter!.label} · ${model}`,
+      provider: selectedAdapter!.id,
+      baseURL: baseURL || undefined,
+      model,
+      requiresApiKey: selectedPreset ? selectedPreset.requiresApiKey : true,
+      // Keep the listing metadata so the capability registry can use it later
+      modelInfo: availableModels.find(info => info.id === model),
+      defaultParams: {
+        ...(!isNaN(temperature) && { temperature }),
+        ...(!isNaN(maxOutputTokens) && { maxOutputTokens })
+      }
+    }, apiKey);
   };
 
   const handleKeyPress = (e: React.KeyboardEvent, action: () => void) => {
@@ -245,36 +155,27 @@ const ProviderSelection: React.FC<ProviderSelectionProps> = ({ onProviderSelect
 
   const goBack = () => {
     setError('');
-    if (step === 'openai-provider') {
+    if (step === 'preset') {
       setStep('provider');
-      setSelectedProvider(null);
-      setSelectedOpenAIProvider(null);
+      setSelectedAdapter(null);
+      setSelectedPreset(null);
       setBaseURL('');
       setCustomBaseURL('');
     } else if (step === 'custom-url') {
-      setStep('openai-provider');
+      setStep('preset');
       setCustomBaseURL('');
     } else if (step === 'apikey') {
-      if (selectedProvider === 'OpenAI') {
-        if (selectedOpenAIProvider?.isCustom) {
-          setStep('custom-url');
-        } else {
-          setStep('openai-provider');
-        }
+      if (selectedPreset) {
+        setStep(selectedPreset.isCustom ? 'custom-url' : 'preset');
       } else {
         setStep('provider');
-        setSelectedProvider(null);
+        setSelectedAdapter(null);
       }
       setApiKey('');
     } else if (step === 'model') {
-      // MODIFIED: Go back to API key step if Gemini or official OpenAI/Ollama fetched models
-      if (selectedProvider === 'Gemini' || (selectedProvider === 'OpenAI' && (selectedOpenAIProvider?.fetchModels || selectedOpenAIProvider?.name === 'Ollama'))) {
-        setStep('apikey');
-        setAvailableModels([]); // Clear models when going back
-      } else {
-        // For other OpenAI compatible providers that don't auto-fetch models
-        setStep('apikey');
-      }
+      // Keyless presets have no API key step to return to
+      setStep(selectedPreset && !selectedPreset.requiresApiKey ? 'preset' : 'apikey');
+      setAvailableModels([]); // Clear models when going back
       setSelectedModel('');
     }
   };
@@ -316,6 +217,14 @@ const ProviderSelection: React.FC<ProviderSelectionProps> = ({ onProviderSelect
             <Terminal className="w-12 h-12 text-green-400 mx-auto mb-2" />
             <h1 className="text-2xl font-bold text-green-400 font-mono">11ku7 AI Chat</h1>
             <p className="text-gray-400 text-sm mt-1">Version 1.0.0</p>
+            {onCancel && (
+              <button
+                onClick={onCancel}
+                className="mt-2 text-gray-400 hover:text-green-400 transition-colors duration-200 font-mono text-xs"
+              >
+                ← Back to chat
+              </button>
+            )}
           </div>
 
           {error && (
@@ -327,49 +236,50 @@ const ProviderSelection: React.FC<ProviderSelectionProps> = ({ onProviderSelect
           {step === 'provider' && (
             <div className="space-y-3">
               <p className="text-gray-300 font-mono text-sm mb-4">Select AI Provider:</p>
-              <button
-                onClick={() => handleProviderSelect('Gemini')}
-                className="w-full p-4 bg-gray-800/50 hover:bg-green-500/10 border border-gray-700 hover:border-green-500/50 rounded-lg transition-all duration-200 flex items-center space-x-3"
-              >
-                <Terminal className="w-5 h-5 text-blue-400" />
-                <span className="text-blue-400 font-mono">Gemini</span>
-              </button>
-              <button
-                onClick={() => handleProviderSelect('OpenAI')}
-                className="w-full p-4 bg-gray-800/50 hover:bg-green-500/10 border border-gray-700 hover:border-green-500/50 rounded-lg transition-all duration-200 flex items-center space-x-3"
-              >
-                <Globe className="w-5 h-5 text-blue-400" />
-                <span className="text-blue-400 font-mono">OpenAI Compatible</span>
-              </button>
+              {providerAdapters.map((adapter) => (
+                <button
+                  key={adapter.id}
+                  onClick={() => handleProviderSelect(adapter)}
+                  className="w-full p-4 bg-gray-800/50 hover:bg-green-500/10 border border-gray-700 hover:border-green-500/50 rounded-lg transition-all duration-200 flex items-center space-x-3"
+                  title={adapter.description}
+                >
+                  {adapter.presets ? (
+                    <Globe className="w-5 h-5 text-blue-400" />
+                  ) : (
+                    <Terminal className="w-5 h-5 text-blue-400" />
+                  )}
+                  <span className="text-blue-400 font-mono">{adapter.label}</span>
+                </button>
+              ))}
             </div>
           )}
 
-          {step === 'openai-provider' && (
+          {step === 'preset' && selectedAdapter?.presets && (
             <div className="space-y-4">
               <div className="flex items-center space-x-2 mb-4">
                 <Globe className="w-4 h-4 text-green-400" />
                 <p className="text-gray-300 font-mono text-sm">
-                  Select OpenAI Compatible Provider:
+                  Select {selectedAdapter.label} Provider:
                 </p>
               </div>
               
               <div className="relative">
                 <button
-                  onClick={() => setShowProviderDropdown(!showProviderDropdown)}
+                  onClick={() => setShowPresetDropdown(!showPresetDropdown)}
                   className="w-full p-3 bg-gray-900/50 border border-gray-700 focus:border-green-500 rounded-lg text-green-400 font-mono text-sm focus:outline-none focus:ring-1 focus:ring-green-500/50 flex items-center justify-between"
                 >
                   <span>
-                    {selectedOpenAIProvider ? selectedOpenAIProvider.name : 'Choose a provider...'}
+                    {selectedPreset ? selectedPreset.name : 'Choose a provider...'}
                   </span>
-                  <ChevronDown className={`w-4 h-4 transition-transform duration-200 ${showProviderDropdown ? 'rotate-180' : ''}`} />
+                  <ChevronDown className={`w-4 h-4 transition-transform duration-200 ${showPresetDropdown ? 'rotate-180' : ''}`} />
                 </button>
                 
-                {showProviderDropdown && (
+                {showPresetDropdown && (
                   <div className="absolute top-full left-0 right-0 mt-1 bg-gray-900 border border-gray-700 rounded-lg shadow-xl z-10 max-h-64 overflow-y-auto">
-                    {openAIProviders.map((provider) => (
+                    {selectedAdapter.presets.map((provider) => (
                       <button
                         key={provider.name}
-                        onClick={() => handleOpenAIProviderSelect(provider)}
+                        onClick={() => handlePresetSelect(provider)}
                         className="w-full p-3 text-left hover:bg-gray-800 transition-colors duration-200 border-b border-gray-700 last:border-b-0"
                       >
                         <div className="flex items-center space-x-2">
@@ -404,23 +314,23 @@ const ProviderSelection: React.FC<ProviderSelectionProps> = ({ onProviderSelect
                 )}
               </div>
 
-              {selectedOpenAIProvider && !selectedOpenAIProvider.isCustom && (
+              {selectedPreset && !selectedPreset.isCustom && (
                 <div className="p-3 bg-green-500/10 border border-green-500/20 rounded-lg">
                   <div className="text-green-400 font-mono text-sm font-semibold mb-1">
-                    Selected: {selectedOpenAIProvider.name}
+                    Selected: {selectedPreset.name}
                   </div>
                   <div className="text-gray-400 text-xs mb-2">
-                    {selectedOpenAIProvider.description}
+                    {selectedPreset.description}
                   </div>
                   <div className="text-gray-300 text-xs font-mono">
-                    Base URL: {selectedOpenAIProvider.baseURL}
+                    Base URL: {selectedPreset.baseURL}
                   </div>
-                  {!selectedOpenAIProvider.requiresApiKey && (
+                  {!selectedPreset.requiresApiKey && (
                     <div className="text-green-400 text-xs mt-2 font-semibold">
                       ✓ No API key required for this provider
                     </div>
                   )}
-                  {selectedOpenAIProvider.fetchModels && (
+                  {selectedPreset.fetchModels && (
                     <div className="text-blue-400 text-xs mt-2 font-semibold">
                       ✓ Will automatically fetch available models
                     </div>
@@ -431,11 +341,11 @@ const ProviderSelection: React.FC<ProviderSelectionProps> = ({ onProviderSelect
               <div className="flex space-x-2">
                 <button
                   onClick={() => { 
-                    if (selectedOpenAIProvider) {
-                      handleOpenAIProviderSelect(selectedOpenAIProvider);
+                    if (selectedPreset) {
+                      handlePresetSelect(selectedPreset);
                     }
                   }}
-                  disabled={!selectedOpenAIProvider || isLoading} 
+                  disabled={!selectedPreset || isLoading} 
                   className="flex-1 p-3 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors duration-200 flex items-center justify-center space-x-2 font-mono text-sm"
                 >
                   {isLoading ? ( 
@@ -515,19 +425,19 @@ const ProviderSelection: React.FC<ProviderSelectionProps> = ({ onProviderSelect
               <div className="flex items-center space-x-2 mb-4">
                 <Key className="w-4 h-4 text-green-400" />
                 <p className="text-gray-300 font-mono text-sm">
-                  Enter {selectedProvider === 'Gemini' ? 'Gemini' : selectedOpenAIProvider?.name || 'OpenAI'} API Key:
+                  Enter {selectedPreset?.name || selectedAdapter?.label} API Key:
                 </p>
               </div>
               
-              {selectedOpenAIProvider && (
+              {selectedPreset && (
                 <div className="p-3 bg-blue-500/10 border border-blue-500/20 rounded-lg mb-4">
                   <div className="text-blue-400 font-mono text-xs">
-                        Provider: {selectedOpenAIProvider.name}
+                        Provider: {selectedPreset.name}
                   </div>
                   <div className="text-gray-400 text-xs mt-1">
-                        {selectedOpenAIProvider.isCustom ? customBaseURL : selectedOpenAIProvider.baseURL}
+                        {selectedPreset.isCustom ? customBaseURL : selectedPreset.baseURL}
                   </div>
-                  {selectedOpenAIProvider.fetchModels && (
+                  {selectedPreset.fetchModels && (
                     <div className="text-green-400 text-xs mt-1 font-semibold">
                       Will fetch available models after API key validation
                     </div>
@@ -556,8 +466,7 @@ const ProviderSelection: React.FC<ProviderSelectionProps> = ({ onProviderSelect
                       <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
                       <span>
                         {/* MODIFIED: Updated text for fetching models based on provider */}
-                        {selectedProvider === 'Gemini' || (selectedOpenAIProvider?.name === 'OpenAI' && selectedOpenAIProvider?.fetchModels)
-                          ? 'Fetching Models...' : 'Validating...'}
+                        {fetchesModels ? 'Fetching Models...' : 'Validating...'}
                       </span>
                     </>
                   ) : (
@@ -580,43 +489,80 @@ const ProviderSelection: React.FC<ProviderSelectionProps> = ({ onProviderSelect
 
           {step === 'model' && (
             <div className="space-y-3">
+              {/* Profile settings - all optional, saved with the new provider profile */}
+              <div className="p-3 bg-gray-800/30 border border-gray-700 rounded-lg space-y-2">
+                <div className="text-gray-400 font-mono text-xs">Profile (optional)</div>
+                <input
+                  type="text"
+                  value={profileName}
+                  onChange={(e) => setProfileName(e.target.value)}
+                  placeholder={`Name (default: ${selectedPreset?.name || selectedAdapter?.label} · model)`}
+                  className="w-full p-2 bg-gray-900/50 border border-gray-700 focus:border-green-500 rounded-lg text-green-400 font-mono text-xs focus:outline-none focus:ring-1 focus:ring-green-500/50"
+                />
+                <div className="flex space-x-2">
+                  <input
+                    type="number"
+                    min="0"
+                    max="2"
+                    step="0.1"
+                    value={defaultTemperature}
+                    onChange={(e) => setDefaultTemperature(e.target.value)}
+                    placeholder="Temperature"
+                    className="w-1/2 p-2 bg-gray-900/50 border border-gray-700 focus:border-green-500 rounded-lg text-green-400 font-mono text-xs focus:outline-none focus:ring-1 focus:ring-green-500/50"
+                  />
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={defaultMaxTokens}
+                    onChange={(e) => setDefaultMaxTokens(e.target.value)}
+                    placeholder="Max output tokens"
+                    className="w-1/2 p-2 bg-gray-900/50 border border-gray-700 focus:border-green-500 rounded-lg text-green-400 font-mono text-xs focus:outline-none focus:ring-1 focus:ring-green-500/50"
+                  />
+                </div>
+              </div>
+
               <p className="text-gray-300 font-mono text-sm mb-4">
-                {(selectedProvider === 'Gemini' || (selectedOpenAIProvider?.name === 'OpenAI' && selectedOpenAIProvider?.fetchModels) || selectedOpenAIProvider?.name === 'Ollama') ? 'Select Model:' : 'Enter Model Name:'}
+                {fetchesModels ? 'Select Model:' : 'Enter Model Name:'}
               </p>
               
-              {(selectedProvider === 'Gemini' || (selectedOpenAIProvider?.name === 'OpenAI' && selectedOpenAIProvider?.fetchModels) || selectedOpenAIProvider?.name === 'Ollama') ? ( // MODIFIED: Added Ollama to auto-fetch list
+              {fetchesModels ? (
                 <div className="space-y-2 max-h-64 overflow-y-auto">
-                  {availableModels.map((model) => (
-                    <button
-                      key={model}
-                      onClick={() => handleModelSelect(model)}
-                      className="w-full p-3 bg-gray-800/50 hover:bg-green-500/10 border border-gray-700 hover:border-green-500/50 rounded-lg transition-all duration-200 text-left"
-                    >
-                      <span className="text-blue-400 font-mono text-sm">{model}</span>
-                    </button>
-                  ))}
+                  {availableModels.map((model) => {
+                    const capabilities = ModelCapabilityRegistry.resolve(model.id, model);
+                    return (
+                      <button
+                        key={model.id}
+                        onClick={() => handleModelSelect(model.id)}
+                        className="w-full p-3 bg-gray-800/50 hover:bg-green-500/10 border border-gray-700 hover:border-green-500/50 rounded-lg transition-all duration-200 text-left flex items-center justify-between"
+                      >
+                        <span className="text-blue-400 font-mono text-sm truncate">{model.id}</span>
+                        <span className="flex items-center space-x-2 text-gray-500 font-mono text-xs flex-shrink-0 ml-2">
+                          {capabilities.vision && <Eye className="w-3 h-3" />}
+                          <span>{ModelCapabilityRegistry.formatTokens(capabilities.contextTokens)}</span>
+                        </span>
+                      </button>
+                    );
+                  })}
                   <button
                     onClick={goBack}
                     className="w-full p-2 text-gray-400 hover:text-green-400 transition-colors duration-200 font-mono text-sm"
                   >
-                    ← Back to API Key
+                    {selectedPreset && !selectedPreset.requiresApiKey ? '← Back to Providers' : '← Back to API Key'}
                   </button>
                 </div>
               ) : (
                 <div className="space-y-4">
-                  {selectedOpenAIProvider && (
+                  {selectedPreset && (
                     <div className="p-3 bg-blue-500/10 border border-blue-500/20 rounded-lg">
                       <div className="text-blue-400 font-mono text-xs mb-1">
-                        Provider: {selectedOpenAIProvider.name}
+                        Provider: {selectedPreset.name}
                       </div>
                       <div className="text-gray-400 text-xs mb-2">
-                        {selectedOpenAIProvider.isCustom ? customBaseURL : selectedOpenAIProvider.baseURL}
+                        {selectedPreset.isCustom ? customBaseURL : selectedPreset.baseURL}
                       </div>
                       <div className="text-gray-400 text-xs">
-                        {selectedOpenAIProvider.name === 'OpenRouter' && 'e.g., anthropic/claude-3-sonnet, openai/gpt-4-turbo'}
-                        {selectedOpenAIProvider.name === 'OpenAI' && 'e.g., gpt-4-turbo-preview, gpt-3.5-turbo'}
-                        {selectedOpenAIProvider.name === 'Ollama' && 'e.g., llama2, codellama, mistral, qwen2.5-coder'}
-                        {selectedOpenAIProvider.isCustom && 'Enter the model name supported by your API'}
+                        {selectedPreset.modelHint}
                       </div>
                     </div>
                   )}
@@ -626,13 +572,7 @@ const ProviderSelection: React.FC<ProviderSelectionProps> = ({ onProviderSelect
                     value={selectedModel}
                     onChange={(e) => setSelectedModel(e.target.value)}
                     onKeyPress={(e) => handleKeyPress(e, () => selectedModel.trim() && handleModelSelect(selectedModel))}
-                    placeholder={
-                      selectedOpenAIProvider?.name === 'OpenRouter' ? 'anthropic/claude-3-sonnet' :
-                      selectedOpenAIProvider?.name === 'OpenAI' ? 'gpt-4-turbo-preview' :
-                      selectedOpenAIProvider?.name === 'Ollama' ? 'llama2' :
-                      selectedOpenAIProvider?.isCustom ? 'model-name' :
-                      'Enter model name...'
-                    }
+                    placeholder={selectedPreset?.modelPlaceholder || 'Enter model name...'}
                     className="w-full p-3 bg-gray-900/50 border border-gray-700 focus:border-green-500 rounded-lg text-green-400 font-mono text-sm focus:outline-none focus:ring-1 focus:ring-green-500/50"
                     autoFocus
                   />
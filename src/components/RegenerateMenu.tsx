@@ -0,0 +1,110 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { RefreshCw, ChevronDown } from 'lucide-react';
+import { ProviderProfile, RegenerateOptions } from '../types';
+import { getProviderAdapter } from '../providers';
+
+interface RegenerateMenuProps {
+  profiles: ProviderProfile[]; // Profiles that can answer right now
+  activeProfileId: string;
+  currentTemperature?: number;
+  disabled?: boolean;
+  onRegenerate: (options: RegenerateOptions) => void;
+}
+
+const RegenerateMenu: React.FC<RegenerateMenuProps> = ({
+  profiles,
+  activeProfileId,
+  currentTemperature,
+  disabled,
+  onRegenerate
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [profileId, setProfileId] = useState(activeProfileId);
+  const [temperature, setTemperature] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close the options when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleSubmit = () => {
+    const parsedTemperature = parseFloat(temperature);
+    setIsOpen(false);
+    onRegenerate({
+      profileId: profileId !== activeProfileId ? profileId : undefined,
+      temperature: isNaN(parsedTemperature) ? undefined : parsedTemperature
+    });
+  };
+
+  const buttonClassName = 'p-1 text-gray-500 hover:text-green-400 disabled:opacity-30 disabled:hover:text-gray-500 transition-colors duration-200';
+
+  return (
+    <div ref={containerRef} className="relative flex items-center">
+      <button onClick={() => onRegenerate({})} disabled={disabled} className={buttonClassName} title="Regenerate">
+        <RefreshCw className="w-3 h-3" />
+      </button>
+      <button
+        onClick={() => {
+          setProfileId(activeProfileId);
+          setIsOpen(!isOpen);
+        }}
+        disabled={disabled}
+        className={buttonClassName}
+        title="Regenerate with another model or temperature"
+      >
+        <ChevronDown className="w-3 h-3" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full left-0 mt-1 w-64 p-3 space-y-3 bg-gray-900 border border-gray-700 rounded-lg shadow-xl z-20">
+          <div>
+            <label className="block text-gray-400 font-mono text-xs mb-1">Model</label>
+            <select
+              value={profileId}
+              onChange={(e) => setProfileId(e.target.value)}
+              className="w-full p-1.5 bg-gray-800 border border-gray-700 focus:border-green-500 rounded text-green-400 font-mono text-xs focus:outline-none"
+            >
+              {profiles.map(profile => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name} ({getProviderAdapter(profile.provider).label} · {profile.model})
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-gray-400 font-mono text-xs mb-1">Temperature</label>
+            <input
+              type="number"
+              min={0}
+              max={2}
+              step={0.1}
+              value={temperature}
+              onChange={(e) => setTemperature(e.target.value)}
+              placeholder={currentTemperature !== undefined ? `${currentTemperature} (current)` : 'current'}
+              className="w-full p-1.5 bg-gray-800 border border-gray-700 focus:border-green-500 rounded text-green-400 font-mono text-xs focus:outline-none"
+            />
+          </div>
+          <button
+            onClick={handleSubmit}
+            className="w-full flex items-center justify-center space-x-2 p-1.5 bg-green-600 hover:bg-green-700 rounded text-white font-mono text-xs transition-colors duration-200"
+          >
+            <RefreshCw className="w-3 h-3" />
+            <span>Regenerate</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RegenerateMenu;
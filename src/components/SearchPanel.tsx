@@ -0,0 +1,124 @@
+import React, { useState, useMemo } from 'react';
+import { Search, X, Code, Paperclip } from 'lucide-react';
+import { ChatMessage, Conversation, OperationMode } from '../types';
+import { ConversationSearch, MARK_CLASSNAME, SearchFilters, SearchResult } from '../utils/conversationSearch';
+
+interface SearchPanelProps {
+  conversations: Conversation[];
+  onOpenResult: (result: SearchResult, query: string) => void;
+  onClose: () => void;
+}
+
+const ROLE_OPTIONS: { value: ChatMessage['role']; label: string }[] = [
+  { value: 'user', label: 'User' },
+  { value: 'ai', label: 'AI' },
+  { value: 'system', label: 'System' }
+];
+
+const MODE_OPTIONS: { value: OperationMode; label: string }[] = [
+  { value: 'none', label: 'Normal' },
+  { value: 'code', label: 'Code' },
+  { value: 'webapp', label: 'Webapp' }
+];
+
+const SearchPanel: React.FC<SearchPanelProps> = ({ conversations, onOpenResult, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [role, setRole] = useState('');
+  const [mode, setMode] = useState('');
+  const [model, setModel] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const models = useMemo(() => ConversationSearch.getModels(conversations), [conversations]);
+
+  const results = useMemo(() => {
+    // Date inputs give local calendar days; both ends are inclusive
+    const filters: SearchFilters = {
+      role: (role || undefined) as SearchFilters['role'],
+      mode: (mode || undefined) as SearchFilters['mode'],
+      model: model || undefined,
+      from: from ? new Date(`${from}T00:00:00`) : undefined,
+      to: to ? new Date(`${to}T23:59:59.999`) : undefined
+    };
+    return ConversationSearch.search(conversations, query, filters);
+  }, [conversations, query, role, mode, model, from, to]);
+
+  const selectClassName = 'p-1.5 bg-gray-800 border border-gray-700 focus:border-green-500 rounded text-green-400 font-mono text-xs focus:outline-none';
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="max-w-3xl w-full max-h-[85vh] flex flex-col bg-black/90 border border-green-500/20 rounded-lg p-6 shadow-2xl">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-green-400 font-mono text-lg font-semibold flex items-center">
+            <Search className="w-5 h-5 mr-2" />
+            Search Conversations
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-green-400 transition-colors duration-200" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => e.key === 'Escape' && onClose()}
+          placeholder="Search messages, code and attachments..."
+          className="w-full p-3 bg-gray-900/50 border border-gray-700 focus:border-green-500 rounded-lg text-green-400 font-mono text-sm focus:outline-none focus:ring-1 focus:ring-green-500/50"
+          autoFocus
+        />
+
+        <div className="flex flex-wrap items-center gap-2 mt-3">
+          <select value={role} onChange={(e) => setRole(e.target.value)} className={selectClassName} title="Role">
+            <option value="">Any role</option>
+            {ROLE_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+          <select value={mode} onChange={(e) => setMode(e.target.value)} className={selectClassName} title="Mode">
+            <option value="">Any mode</option>
+            {MODE_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+          <select value={model} onChange={(e) => setModel(e.target.value)} className={`${selectClassName} max-w-[12rem]`} title="Model that wrote the reply">
+            <option value="">Any model</option>
+            {models.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={selectClassName} title="From" />
+          <span className="text-gray-500 font-mono text-xs">to</span>
+          <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={selectClassName} title="To" />
+        </div>
+
+        <div className="mt-4 flex-1 min-h-0 overflow-y-auto space-y-2">
+          {query.trim() && results.length === 0 && (
+            <div className="text-gray-500 font-mono text-xs text-center py-4">No matches</div>
+          )}
+          {results.map(result => (
+            <button
+              key={`${result.conversation.id}-${result.message.id}`}
+              onClick={() => onOpenResult(result, query.trim())}
+              className="w-full text-left p-3 bg-gray-800/30 hover:bg-green-500/10 border border-gray-700 hover:border-green-500/50 rounded-lg transition-all duration-200"
+            >
+              <div className="flex items-center space-x-2 text-xs font-mono mb-1">
+                <span className="text-green-400 truncate">{result.conversation.title}</span>
+                <span className="text-gray-500">·</span>
+                <span className="text-gray-400">{ROLE_OPTIONS.find(option => option.value === result.message.role)?.label}</span>
+                {result.message.model && <span className="text-gray-500 truncate max-w-[10rem]">{result.message.model}</span>}
+                {result.source === 'code' && <Code className="w-3 h-3 text-gray-400 flex-shrink-0" />}
+                {result.source === 'attachment' && <Paperclip className="w-3 h-3 text-gray-400 flex-shrink-0" />}
+                {result.sourceLabel && <span className="text-gray-500 truncate">{result.sourceLabel}</span>}
+                <span className="flex-1" />
+                {result.matchCount > 1 && <span className="text-gray-500 flex-shrink-0">{result.matchCount} matches</span>}
+                <span className="text-gray-500 flex-shrink-0">{result.message.timestamp.toLocaleString()}</span>
+              </div>
+              <div className="text-gray-300 font-mono text-xs break-words">
+                {result.snippet.before}
+                <mark className={MARK_CLASSNAME}>{result.snippet.match}</mark>
+                {result.snippet.after}
+              </div>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SearchPanel;
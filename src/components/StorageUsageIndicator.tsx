@@ -0,0 +1,48 @@
+import React from 'react';
+import { HardDrive, AlertTriangle } from 'lucide-react';
+import { StorageUsage } from '../types';
+
+interface StorageUsageIndicatorProps {
+  usage: StorageUsage;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)}GB`;
+};
+
+const StorageUsageIndicator: React.FC<StorageUsageIndicatorProps> = ({ usage }) => {
+  if (usage.error) {
+    return (
+      <div className="flex items-start space-x-1 text-red-400 font-mono text-xs" title={usage.error}>
+        <AlertTriangle className="w-3 h-3 flex-shrink-0 mt-0.5" />
+        <span className="line-clamp-2">{usage.error}</span>
+      </div>
+    );
+  }
+
+  // The browser doesn't report usage everywhere (e.g. some private windows)
+  if (usage.usedBytes === undefined || !usage.quotaBytes) return null;
+
+  const percentage = Math.min(100, (usage.usedBytes / usage.quotaBytes) * 100);
+  const barColor = percentage > 90 ? 'bg-red-500' : percentage > 70 ? 'bg-yellow-500' : 'bg-green-500';
+
+  return (
+    <div title={`${percentage.toFixed(1)}% of the storage this browser allows the app`}>
+      <div className="flex items-center justify-between text-gray-500 font-mono text-xs mb-1">
+        <span className="flex items-center">
+          <HardDrive className="w-3 h-3 mr-1" />
+          Storage
+        </span>
+        <span>{formatBytes(usage.usedBytes)} / {formatBytes(usage.quotaBytes)}</span>
+      </div>
+      <div className="w-full bg-gray-800 rounded-full h-1">
+        <div className={`${barColor} h-1 rounded-full transition-all duration-300`} style={{ width: `${percentage}%` }} />
+      </div>
+    </div>
+  );
+};
+
+export default StorageUsageIndicator;
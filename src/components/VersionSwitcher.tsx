@@ -0,0 +1,38 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { VersionInfo } from '../types';
+
+interface VersionSwitcherProps {
+  version: VersionInfo;
+  disabled?: boolean;
+  onSwitch: (offset: number) => void;
+  className?: string; // Text colors, so it fits both the user and the assistant bubbles
+}
+
+const VersionSwitcher: React.FC<VersionSwitcherProps> = ({ version, disabled, onSwitch, className = 'text-gray-400' }) => {
+  const buttonClassName = 'p-0.5 rounded hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent transition-colors duration-200';
+
+  return (
+    <div className={`flex items-center space-x-1 font-mono text-xs select-none ${className}`}>
+      <button
+        onClick={() => onSwitch(-1)}
+        disabled={disabled || version.currentVersion <= 1}
+        className={buttonClassName}
+        title="Previous version"
+      >
+        <ChevronLeft className="w-3 h-3" />
+      </button>
+      <span>{version.currentVersion}/{version.totalVersions}</span>
+      <button
+        onClick={() => onSwitch(1)}
+        disabled={disabled || version.currentVersion >= version.totalVersions}
+        className={buttonClassName}
+        title="Next version"
+      >
+        <ChevronRight className="w-3 h-3" />
+      </button>
+    </div>
+  );
+};
+
+export default VersionSwitcher;
@@ -0,0 +1,303 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { ChatMessage, Conversation, GenerationParams, OperationMode, StorageUsage } from '../types';
+import { useLocalStorage } from './useLocalStorage';
+import { ChatDatabase } from '../utils/chatDatabase';
+import { AttachmentStore } from '../utils/attachmentStore';
+
+// Where conversations were kept before moving to IndexedDB
+const LOCAL_STORAGE_CONVERSATIONS_KEY = 'ai-nodecoder-conversations';
+export const DEFAULT_CONVERSATION_TITLE = 'New conversation';
+
+// Single-chat storage from before conversations existed
+const LEGACY_KEYS = {
+  messages: 'ai-nodecoder-messages',
+  systemPrompt: 'ai-nodecoder-system-prompt',
+  systemPromptEnabled: 'ai-nodecoder-system-prompt-enabled',
+  generationParams: 'ai-nodecoder-generation-params'
+};
+
+// Converts stored date strings back to Date objects
+const dateReviver = (key: string, value: unknown) => {
+  if ((key === 'timestamp' || key === 'createdAt' || key === 'updatedAt') && typeof value === 'string') {
+    return new Date(value);
+  }
+  return value;
+};
+
+const createConversation = (profileId: string | null, seed: Partial<Conversation> = {}): Conversation => {
+  const now = new Date();
+  return {
+    id: `conversation-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    title: DEFAULT_CONVERSATION_TITLE,
+    messages: [],
+    mode: 'none',
+    systemPrompt: '',
+    systemPromptEnabled: false,
+    profileId,
+    generationParams: {},
+    createdAt: now,
+    updatedAt: now,
+    ...seed
+  };
+};
+
+const readLocalStorage = <T>(key: string, fallback: T): T => {
+  const item = window.localStorage.getItem(key);
+  return item ? JSON.parse(item, dateReviver) : fallback;
+};
+
+// Conversations kept in localStorage by earlier versions - either the conversation list or the old single chat
+const readLocalStorageConversations = (profileId: string | null): Conversation[] => {
+  const conversations = readLocalStorage<Conversation[]>(LOCAL_STORAGE_CONVERSATIONS_KEY, []);
+  if (conversations.length > 0) return conversations;
+
+  const messages = readLocalStorage<ChatMessage[]>(LEGACY_KEYS.messages, []);
+  return [createConversation(profileId, {
+    title: messages.length > 0 ? 'Previous chat' : DEFAULT_CONVERSATION_TITLE,
+    messages,
+    systemPrompt: readLocalStorage<string>(LEGACY_KEYS.systemPrompt, ''),
+    systemPromptEnabled: readLocalStorage<boolean>(LEGACY_KEYS.systemPromptEnabled, false),
+    generationParams: readLocalStorage<Partial<Record<OperationMode, GenerationParams>>>(LEGACY_KEYS.generationParams, {})
+  })];
+};
+
+// Saves run one after another so an older snapshot can never overwrite a newer one
+let saveQueue: Promise<void> = Promise.resolve();
+const enqueueSave = (task: () => Promise<void>): Promise<void> => {
+  const run = saveQueue.then(task);
+  saveQueue = run.catch(() => undefined);
+  return run;
+};
+
+const saveConversations = async (conversations: Conversation[]) => {
+  const stripped = await Promise.all(conversations.map(async conversation => ({
+    ...conversation,
+    messages: await AttachmentStore.dehydrate(conversation.messages)
+  })));
+  await ChatDatabase.putConversations(stripped);
+};
+
+const migrateLocalStorage = async (profileId: string | null): Promise<Conversation[]> => {
+  const migrated = readLocalStorageConversations(profileId);
+  await enqueueSave(() => saveConversations(migrated));
+  // Only dropped once the copy in IndexedDB is safe
+  [LOCAL_STORAGE_CONVERSATIONS_KEY, ...Object.values(LEGACY_KEYS)].forEach(key => window.localStorage.removeItem(key));
+  return migrated;
+};
+
+// StrictMode runs the load effect twice, and both runs can find the database still empty - they share one
+// migration, so it is never written twice (the old single chat would get two different ids)
+let migration: Promise<Conversation[]> | null = null;
+
+// Loads from IndexedDB, moving anything still in localStorage over on first run
+const loadConversations = async (profileId: string | null): Promise<Conversation[]> => {
+  const stored = await ChatDatabase.loadConversations();
+  if (stored.length > 0) return stored;
+
+  if (!migration) {
+    migration = migrateLocalStorage(profileId);
+    // Allow another attempt after a failed migration; localStorage is untouched until the write commits
+    migration.catch(() => {
+      migration = null;
+    });
+  }
+  return migration;
+};
+
+const getErrorMessage = (error: unknown): string => {
+  return error instanceof Error ? error.message : 'Unknown storage error';
+};
+
+// Conversations live in IndexedDB with their attachment images as separate blobs, loaded when a conversation is opened.
+// Once loaded there is always at least one conversation, and one is active.
+export function useConversations(defaultProfileId: string | null) {
+  const [conversations, setConversationsState] = useState<Conversation[]>([]);
+  const conversationsRef = useRef(conversations);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage>({});
+  const [activeConversationId, setActiveConversationId] = useLocalStorage<string | null>('ai-nodecoder-active-conversation', null);
+  const savedRef = useRef<Map<string, Conversation>>(new Map()); // Last saved version of each conversation
+  const loadedAttachmentsRef = useRef<Set<string>>(new Set()); // Conversations whose attachments were loaded
+  const canSaveRef = useRef(true); // False when IndexedDB couldn't be opened
+  // Only the profile at startup matters for migrated conversations
+  const initialProfileIdRef = useRef(defaultProfileId);
+
+  // Functional updates start from the latest value, even after an await
+  const setConversations = useCallback((update: Conversation[] | ((prev: Conversation[]) => Conversation[])) => {
+    const next = update instanceof Function ? update(conversationsRef.current) : update;
+    conversationsRef.current = next;
+    setConversationsState(next);
+  }, []);
+
+  const updateConversation = useCallback((conversationId: string, updater: (conversation: Conversation) => Conversation) => {
+    setConversations(prev => prev.map(conversation => conversation.id === conversationId ? updater(conversation) : conversation));
+  }, [setConversations]);
+
+  const refreshStorageUsage = useCallback(async () => {
+    if (!navigator.storage?.estimate) return;
+    const { usage, quota } = await navigator.storage.estimate();
+    setStorageUsage({ usedBytes: usage, quotaBytes: quota });
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const profileId = initialProfileIdRef.current;
+
+    loadConversations(profileId)
+      .then(loaded => {
+        if (cancelled) return;
+        const initial = loaded.length > 0 ? loaded : [createConversation(profileId)];
+        // Stored versions don't need saving again
+        savedRef.current = new Map(loaded.map(conversation => [conversation.id, conversation]));
+        setConversations(initial);
+        setIsLoaded(true);
+        // Ask the browser not to evict the chat history under storage pressure
+        navigator.storage?.persist?.().catch(() => undefined);
+        refreshStorageUsage().catch(() => undefined);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Error loading conversations:', error);
+        // Keep working from whatever localStorage still has; nothing is saved this session
+        canSaveRef.current = false;
+        setConversations(readLocalStorageConversations(profileId));
+        setStorageUsage({ error: `Conversations can't be saved: ${getErrorMessage(error)}` });
+        setIsLoaded(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [setConversations, refreshStorageUsage]);
+
+  // Save conversations that changed since the last save, and drop deleted ones
+  useEffect(() => {
+    if (!isLoaded || !canSaveRef.current) return;
+
+    const saved = savedRef.current;
+    const changed = conversations.filter(conversation => saved.get(conversation.id) !== conversation);
+    const removedIds = [...saved.keys()].filter(id => !conversations.some(conversation => conversation.id === id));
+    if (changed.length === 0 && removedIds.length === 0) return;
+    savedRef.current = new Map(conversations.map(conversation => [conversation.id, conversation]));
+
+    enqueueSave(async () => {
+      await saveConversations(changed);
+      for (const id of removedIds) {
+        await ChatDatabase.deleteConversation(id);
+      }
+      await AttachmentStore.collectGarbage(conversationsRef.current);
+    })
+      .then(refreshStorageUsage)
+      .catch(error => {
+        console.error('Error saving conversations:', error);
+        setStorageUsage(prev => ({ ...prev, error: `Saving failed: ${getErrorMessage(error)}` }));
+      });
+  }, [conversations, isLoaded, refreshStorageUsage]);
+
+  const activeConversation = conversations.find(conversation => conversation.id === activeConversationId)
+    || conversations.find(conversation => !conversation.archived)
+    || conversations[0]
+    || null;
+  const resolvedActiveId = activeConversation?.id;
+
+  // Attachment images are only read from the blob store once their conversation is opened
+  useEffect(() => {
+    const conversation = conversationsRef.current.find(candidate => candidate.id === resolvedActiveId);
+    if (!isLoaded || !conversation || loadedAttachmentsRef.current.has(conversation.id)) return;
+
+    const conversationId = conversation.id;
+    loadedAttachmentsRef.current.add(conversationId);
+    if (!AttachmentStore.needsLoading(conversation.messages)) return;
+
+    AttachmentStore.load(conversation.messages)
+      .then(loaded => {
+        if (loaded.size > 0) {
+          updateConversation(conversationId, current => ({
+            ...current,
+            messages: AttachmentStore.apply(current.messages, loaded)
+          }));
+        }
+      })
+      .catch(error => console.error('Error loading attachments:', error));
+  }, [isLoaded, resolvedActiveId, updateConversation]);
+
+  // New conversations start blank, on the profile currently in use
+  const create = (profileId: string | null = defaultProfileId): string => {
+    const conversation = createConversation(profileId);
+    setConversations(prev => [conversation, ...prev]);
+    setActiveConversationId(conversation.id);
+    return conversation.id;
+  };
+
+  // Imported conversations get a fresh id and are listed as just updated
+  const importConversation = (seed: Partial<Conversation>, profileId: string | null = defaultProfileId): string => {
+    const { id, updatedAt } = createConversation(profileId);
+    const conversation = createConversation(profileId, { ...seed, id, updatedAt, archived: false });
+    setConversations(prev => [conversation, ...prev]);
+    setActiveConversationId(conversation.id);
+    return conversation.id;
+  };
+
+  const rename = (conversationId: string, title: string) => {
+    if (!title.trim()) return;
+    updateConversation(conversationId, conversation => ({
+      ...conversation,
+      title: title.trim(),
+      titleEdited: conversation.titleEdited || title.trim() !== conversation.title
+    }));
+  };
+
+  const duplicate = (conversationId: string) => {
+    const source = conversations.find(conversation => conversation.id === conversationId);
+    if (!source) return;
+
+    const { id, createdAt, updatedAt } = createConversation(source.profileId);
+    const duplicated: Conversation = { ...source, id, createdAt, updatedAt, title: `${source.title} (copy)`, archived: false };
+
+    setConversations(prev => [duplicated, ...prev]);
+    setActiveConversationId(duplicated.id);
+  };
+
+  // Archived conversations are kept but hidden from the main list
+  const setArchived = (conversationId: string, archived: boolean) => {
+    updateConversation(conversationId, conversation => ({ ...conversation, archived }));
+    if (archived && conversationId === activeConversation?.id) {
+      const next = conversations.find(conversation => conversation.id !== conversationId && !conversation.archived);
+      if (next) {
+        setActiveConversationId(next.id);
+      } else {
+        create(activeConversation.profileId);
+      }
+    }
+  };
+
+  const remove = (conversationId: string) => {
+    const remaining = conversations.filter(conversation => conversation.id !== conversationId);
+    if (remaining.length === 0) {
+      const conversation = createConversation(activeConversation?.profileId ?? defaultProfileId);
+      setConversations([conversation]);
+      setActiveConversationId(conversation.id);
+      return;
+    }
+
+    setConversations(prev => prev.filter(conversation => conversation.id !== conversationId));
+    if (conversationId === activeConversation?.id) {
+      setActiveConversationId((remaining.find(conversation => !conversation.archived) || remaining[0]).id);
+    }
+  };
+
+  return {
+    conversations,
+    activeConversation,
+    isLoaded,
+    storageUsage,
+    select: setActiveConversationId,
+    create,
+    importConversation,
+    update: updateConversation,
+    rename,
+    duplicate,
+    setArchived,
+    remove
+  };
+}
@@ -0,0 +1,65 @@
+import { useState } from 'react';
+import { EncryptedVault } from '../types';
+import { KeyVault } from '../utils/keyVault';
+import { useLocalStorage } from './useLocalStorage';
+
+export type VaultStatus = 'none' | 'locked' | 'unlocked';
+
+// Keeps the encrypted vault in localStorage and the derived key in memory, so it unlocks once per session
+export function useKeyVault() {
+  const [vault, setVault] = useLocalStorage<EncryptedVault | null>('ai-nodecoder-key-vault', null);
+  const [cryptoKey, setCryptoKey] = useState<CryptoKey | null>(null);
+
+  const status: VaultStatus = !vault ? 'none' : cryptoKey ? 'unlocked' : 'locked';
+
+  const create = async (passphrase: string, keys: Record<string, string>) => {
+    const created = await KeyVault.create(passphrase, keys);
+    setVault(created.vault);
+    setCryptoKey(created.cryptoKey);
+  };
+
+  // Returns the stored keys merged with the ones already entered this session, saving the merge back
+  const unlock = async (passphrase: string, sessionKeys: Record<string, string> = {}): Promise<Record<string, string>> => {
+    if (!vault) throw new Error('No key vault to unlock');
+
+    const unlocked = await KeyVault.unlock(vault, passphrase);
+    const merged = { ...unlocked.keys, ...sessionKeys };
+    if (Object.keys(sessionKeys).some(keyRef => unlocked.keys[keyRef] !== sessionKeys[keyRef])) {
+      setVault(await KeyVault.seal(merged, unlocked.cryptoKey, vault.salt, vault.iterations));
+    }
+    setCryptoKey(unlocked.cryptoKey);
+    return merged;
+  };
+
+  // Re-encrypt the vault with the current keys - only possible while unlocked
+  const save = async (keys: Record<string, string>) => {
+    if (!vault || !cryptoKey) return;
+    setVault(await KeyVault.seal(keys, cryptoKey, vault.salt, vault.iterations));
+  };
+
+  const lock = () => {
+    setCryptoKey(null);
+  };
+
+  const forget = () => {
+    setVault(null);
+    setCryptoKey(null);
+  };
+
+  // Replaces any existing vault; the imported one starts locked
+  const importVault = (json: string) => {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new Error('The file is not valid JSON');
+    }
+    if (!KeyVault.isVault(data)) {
+      throw new Error('The file is not an 11ku7 key vault');
+    }
+    setVault(data);
+    setCryptoKey(null);
+  };
+
+  return { vault, status, create, unlock, save, lock, forget, importVault };
+}
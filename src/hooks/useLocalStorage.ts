@@ -1,19 +1,24 @@
-import { useState, useEffect } from 'react';
+import { useState, useRef } from 'react';
 
-export function useLocalStorage<T>(key: string, initialValue: T, reviver?: (key: string, value: any) => any) {
+// initialValue may be a function, called only when nothing is stored yet
+export function useLocalStorage<T>(key: string, initialValue: T | (() => T), reviver?: (key: string, value: any) => any) {
   const [storedValue, setStoredValue] = useState<T>(() => {
     try {
       const item = window.localStorage.getItem(key);
-      return item ? JSON.parse(item, reviver) : initialValue;
+      if (item) return JSON.parse(item, reviver);
+      return initialValue instanceof Function ? initialValue() : initialValue;
     } catch (error) {
       console.error(`Error reading localStorage key "${key}":`, error);
-      return initialValue;
+      return initialValue instanceof Function ? initialValue() : initialValue;
     }
   });
+  // Latest value, so functional updates made after an await don't start from a stale render
+  const valueRef = useRef(storedValue);
 
   const setValue = (value: T | ((val: T) => T)) => {
     try {
-      const valueToStore = value instanceof Function ? value(storedValue) : value;
+      const valueToStore = value instanceof Function ? value(valueRef.current) : value;
+      valueRef.current = valueToStore;
       setStoredValue(valueToStore);
       window.localStorage.setItem(key, JSON.stringify(valueToStore));
     } catch (error) {
@@ -2,6 +2,9 @@ import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
 import './index.css';
+import 'katex/dist/katex.min.css';
+import './styles/highlight-terminal.css';
+import './styles/math.css';
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -0,0 +1,117 @@
+import { ProviderAdapter, ProviderConfig } from '../types';
+import { resolveParams } from './params';
+import { AIRequestError } from '../utils/aiRequestError';
+
+interface AnthropicContentBlock {
+  type: string;
+  text?: string;
+}
+
+interface AnthropicResponse {
+  content?: AnthropicContentBlock[];
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  delta?: { type?: string; text?: string; stop_reason?: string };
+  error?: { type?: string; message?: string };
+}
+
+const buildHeaders = (config: ProviderConfig): Record<string, string> => ({
+  'Content-Type': 'application/json',
+  'x-api-key': config.apiKey,
+  'anthropic-version': '2023-06-01',
+  // Required for requests made straight from the browser (CORS)
+  'anthropic-dangerous-direct-browser-access': 'true'
+});
+
+export const anthropicAdapter: ProviderAdapter = {
+  id: 'Anthropic',
+  label: 'Anthropic',
+  description: 'Anthropic Messages API (Claude models)',
+  defaultBaseURL: 'https://api.anthropic.com/v1',
+  defaultParams: {
+    temperature: 0.7,
+    maxOutputTokens: 4096,
+  },
+  sharedContextWindow: true,
+  // The Messages API has no seed or presence/frequency penalties
+  supportedParams: ['temperature', 'topP', 'topK', 'maxOutputTokens', 'stopSequences'],
+
+  buildRequest: (config, request, stream) => {
+    const params = resolveParams(anthropicAdapter, config.params);
+
+    return {
+      url: `${config.baseURL || anthropicAdapter.defaultBaseURL}/messages`,
+      headers: buildHeaders(config),
+      body: {
+        model: config.model,
+        ...(request.system && { system: request.system }),
+        messages: request.turns.map(turn => ({
+          role: turn.role,
+          // Images go before the text, as recommended by the Messages API
+          content: [...turn.images.map(anthropicAdapter.encodeImage), { type: 'text', text: turn.text }]
+        })),
+        temperature: params.temperature,
+        top_p: params.topP,
+        top_k: params.topK,
+        max_tokens: params.maxOutputTokens,
+        stop_sequences: params.stopSequences,
+        stream
+      }
+    };
+  },
+
+  parseResponse: (data) => {
+    const response = data as AnthropicResponse;
+    if (!response.content || !Array.isArray(response.content)) {
+      throw new Error('Invalid response format from Anthropic API');
+    }
+    return response.content
+      .filter(block => block.type === 'text')
+      .map(block => block.text || '')
+      .join('');
+  },
+
+  parseStreamEvent: (data) => {
+    const event: AnthropicStreamEvent = JSON.parse(data);
+    if (event.type === 'error') {
+      throw AIRequestError.fromStreamError('Anthropic', event.error?.message || 'Stream interrupted', event.error?.type);
+    }
+    if (event.type === 'message_delta' && event.delta?.stop_reason === 'refusal') {
+      throw new AIRequestError('content-blocked', 'The model declined to continue this response');
+    }
+    if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+      return event.delta.text || '';
+    }
+    // message_start, ping, content_block_start/stop, message_delta and message_stop carry no text
+    return '';
+  },
+
+  listModels: async (config) => {
+    const response = await fetch(`${config.baseURL || anthropicAdapter.defaultBaseURL}/models?limit=100`, {
+      headers: buildHeaders(config)
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data: { data?: { id: string; display_name?: string }[] } = await response.json();
+
+    if (!data.data || !Array.isArray(data.data)) {
+      throw new Error('Invalid response format from Anthropic API');
+    }
+
+    return data.data.map(model => ({ id: model.id, displayName: model.display_name }));
+  },
+
+  encodeImage: (image) => ({
+    type: 'image',
+    source: {
+      type: 'base64',
+      media_type: image.mimeType,
+      data: image.data
+    }
+  })
+};
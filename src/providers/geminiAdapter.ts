@@ -0,0 +1,129 @@
+import { ProviderAdapter } from '../types';
+import { resolveParams } from './params';
+import { AIRequestError } from '../utils/aiRequestError';
+
+interface GeminiPart {
+  text?: string;
+}
+
+interface GeminiResponse {
+  candidates?: { content?: { parts?: GeminiPart[] }; finishReason?: string }[];
+  promptFeedback?: { blockReason?: string };
+  error?: { message?: string; status?: string };
+}
+
+// Finish reasons that mean the safety filters cut the response off
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII'];
+
+interface GeminiModel {
+  name: string;
+  displayName?: string;
+  inputTokenLimit?: number;
+  outputTokenLimit?: number;
+  supportedGenerationMethods?: string[];
+}
+
+// Gemini answers blocked prompts with a 200 and no candidates, so blocks have to be detected in the body
+const checkBlocked = (data: GeminiResponse, hasText: boolean) => {
+  if (data.promptFeedback?.blockReason) {
+    throw new AIRequestError('content-blocked', `Gemini blocked the prompt (${data.promptFeedback.blockReason})`);
+  }
+  const finishReason = data.candidates?.[0]?.finishReason;
+  if (!hasText && finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new AIRequestError('content-blocked', `Gemini blocked the response (${finishReason})`);
+  }
+};
+
+const extractText = (data: GeminiResponse): string => {
+  const parts = data.candidates?.[0]?.content?.parts || [];
+  return parts.map(part => part.text || '').join('');
+};
+
+export const geminiAdapter: ProviderAdapter = {
+  id: 'Gemini',
+  label: 'Gemini',
+  description: 'Google Gemini API',
+  defaultBaseURL: 'https://generativelanguage.googleapis.com/v1beta',
+  defaultParams: {
+    temperature: 0.7,
+    topK: 40,
+    topP: 0.95,
+    maxOutputTokens: 8192,
+  },
+  supportedParams: ['temperature', 'topP', 'topK', 'maxOutputTokens', 'stopSequences', 'seed', 'presencePenalty', 'frequencyPenalty'],
+
+  buildRequest: (config, request, stream) => {
+    const baseURL = config.baseURL || geminiAdapter.defaultBaseURL;
+    // alt=sse makes Gemini stream GenerateContentResponse chunks as Server-Sent Events
+    const endpoint = stream ? 'streamGenerateContent?alt=sse&' : 'generateContent?';
+    // generationConfig uses the same field names as GenerationParams
+    const generationConfig = resolveParams(geminiAdapter, config.params);
+
+    return {
+      url: `${baseURL}/models/${config.model}:${endpoint}key=${config.apiKey}`,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: {
+        // Gemini calls the assistant role "model"
+        contents: request.turns.map(turn => ({
+          role: turn.role === 'assistant' ? 'model' : 'user',
+          parts: [{ text: turn.text }, ...turn.images.map(geminiAdapter.encodeImage)]
+        })),
+        ...(request.system && { systemInstruction: { parts: [{ text: request.system }] } }),
+        generationConfig
+      }
+    };
+  },
+
+  parseResponse: (data) => {
+    const response = data as GeminiResponse;
+    checkBlocked(response, false);
+    if (!response.candidates || !response.candidates[0] || !response.candidates[0].content) {
+      throw new Error('Invalid response format from Gemini API');
+    }
+    return extractText(response);
+  },
+
+  parseStreamEvent: (data) => {
+    const chunk: GeminiResponse = JSON.parse(data);
+    if (chunk.error) {
+      throw AIRequestError.fromStreamError('Gemini', chunk.error.message || 'Stream interrupted', chunk.error.status);
+    }
+    const text = extractText(chunk);
+    checkBlocked(chunk, text.length > 0);
+    return text;
+  },
+
+  listModels: async (config) => {
+    const baseURL = config.baseURL || geminiAdapter.defaultBaseURL;
+    const response = await fetch(`${baseURL}/models?key=${config.apiKey}`);
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data: { models?: GeminiModel[] } = await response.json();
+
+    if (!data.models || !Array.isArray(data.models)) {
+      throw new Error('Invalid response format from Gemini API');
+    }
+
+    return data.models
+      .filter(model => model.supportedGenerationMethods?.includes('generateContent'))
+      // Vision and tool support aren't listed - the capability registry fills those in
+      .map(model => ({
+        id: model.name.split('/')[1],
+        displayName: model.displayName,
+        inputTokenLimit: model.inputTokenLimit,
+        outputTokenLimit: model.outputTokenLimit
+      }));
+  },
+
+  encodeImage: (image) => ({
+    inline_data: {
+      mime_type: image.mimeType,
+      data: image.data
+    }
+  })
+};
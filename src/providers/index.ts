@@ -0,0 +1,20 @@
+import { Provider, ProviderAdapter } from '../types';
+import { geminiAdapter } from './geminiAdapter';
+import { openAIAdapter } from './openAIAdapter';
+import { anthropicAdapter } from './anthropicAdapter';
+
+// Registered providers, in the order they are offered in the provider selection screen.
+// Adding a provider only requires writing its adapter and listing it here.
+export const providerAdapters: ProviderAdapter[] = [
+  geminiAdapter,
+  openAIAdapter,
+  anthropicAdapter
+];
+
+export const getProviderAdapter = (provider: Provider): ProviderAdapter => {
+  const adapter = providerAdapters.find(candidate => candidate.id === provider);
+  if (!adapter) {
+    throw new Error(`Unknown AI provider: ${provider}`);
+  }
+  return adapter;
+};
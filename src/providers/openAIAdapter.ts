@@ -0,0 +1,207 @@
+import { ModelInfo, ProviderAdapter, ProviderConfig } from '../types';
+import { resolveParams } from './params';
+import { AIRequestError } from '../utils/aiRequestError';
+
+interface OpenAIChoice {
+  message?: { content?: string };
+  delta?: { content?: string };
+  finish_reason?: string | null;
+}
+
+interface OpenAIResponse {
+  choices?: OpenAIChoice[];
+  error?: { message?: string; type?: string; code?: string };
+}
+
+// OpenAI only lists ids; OpenRouter-style endpoints add context and modality details
+interface OpenAIModel {
+  id: string;
+  name?: string;
+  context_length?: number;
+  architecture?: { input_modalities?: string[] };
+  top_provider?: { max_completion_tokens?: number | null };
+  supported_parameters?: string[];
+}
+
+// Ollama lists its local models on the native /api/tags endpoint rather than /v1/models
+const listOllamaModels = async (config: ProviderConfig): Promise<ModelInfo[]> => {
+  const serverURL = (config.baseURL || '').replace(/\/v1\/?$/, '');
+  const response = await fetch(`${serverURL}/api/tags`);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}. Please ensure Ollama server is running at ${serverURL}.`);
+  }
+  const data: { models?: { name: string; details?: { families?: string[] | null } }[] } = await response.json();
+  if (!data.models || !Array.isArray(data.models)) {
+    throw new Error('Invalid response format from Ollama API.');
+  }
+  // Multimodal models carry a CLIP-style projector family
+  const models = data.models.map(model => ({
+    id: model.name,
+    ...(model.details?.families?.some(family => family === 'clip' || family === 'mllama') && { vision: true })
+  }));
+  if (models.length === 0) {
+    throw new Error('No models found on Ollama server. Please download models (e.g., `ollama pull llama2`).');
+  }
+  return models;
+};
+
+export const openAIAdapter: ProviderAdapter = {
+  id: 'OpenAI',
+  label: 'OpenAI Compatible',
+  description: 'OpenAI, OpenRouter, Ollama or any OpenAI-compatible endpoint',
+  defaultParams: {
+    temperature: 0.7,
+    maxOutputTokens: 4096,
+  },
+  sharedContextWindow: true,
+  supportedParams: ['temperature', 'topP', 'maxOutputTokens', 'stopSequences', 'seed', 'presencePenalty', 'frequencyPenalty'],
+  presets: [
+    {
+      name: 'OpenAI',
+      baseURL: 'https://api.openai.com/v1',
+      description: 'Official OpenAI API',
+      requiresApiKey: true,
+      fetchModels: true,
+      modelPlaceholder: 'gpt-4-turbo-preview',
+      modelHint: 'e.g., gpt-4-turbo-preview, gpt-3.5-turbo'
+    },
+    {
+      name: 'OpenRouter',
+      baseURL: 'https://openrouter.ai/api/v1',
+      description: 'Access to multiple AI models through OpenRouter',
+      requiresApiKey: true,
+      modelPlaceholder: 'anthropic/claude-3-sonnet',
+      modelHint: 'e.g., anthropic/claude-3-sonnet, openai/gpt-4-turbo'
+    },
+    {
+      name: 'Ollama',
+      baseURL: 'http://localhost:11434/v1',
+      description: 'Local Ollama instance (no API key required)',
+      requiresApiKey: false,
+      fetchModels: true,
+      modelPlaceholder: 'llama2',
+      modelHint: 'e.g., llama2, codellama, mistral, qwen2.5-coder'
+    },
+    {
+      name: 'Custom Provider',
+      baseURL: '',
+      description: 'Enter your own API endpoint URL',
+      requiresApiKey: true,
+      isCustom: true,
+      modelPlaceholder: 'model-name',
+      modelHint: 'Enter the model name supported by your API'
+    }
+  ],
+
+  buildRequest: (config, request, stream) => {
+    const params = resolveParams(openAIAdapter, config.params);
+
+    return {
+      url: `${config.baseURL}/chat/completions`,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${config.apiKey}`
+      },
+      body: {
+        model: config.model,
+        messages: [
+          ...(request.system ? [{ role: 'system', content: request.system }] : []),
+          ...request.turns.map(turn => ({
+            role: turn.role,
+            // Vision models take a content array, text-only turns keep the plain string form
+            content: turn.images.length > 0
+              ? [{ type: 'text', text: turn.text }, ...turn.images.map(openAIAdapter.encodeImage)]
+              : turn.text
+          }))
+        ],
+        temperature: params.temperature,
+        top_p: params.topP,
+        max_tokens: params.maxOutputTokens,
+        stop: params.stopSequences,
+        seed: params.seed,
+        presence_penalty: params.presencePenalty,
+        frequency_penalty: params.frequencyPenalty,
+        stream
+      }
+    };
+  },
+
+  parseResponse: (data) => {
+    const response = data as OpenAIResponse;
+    if (!response.choices || !response.choices[0] || !response.choices[0].message) {
+      throw new Error('Invalid response format from OpenAI API');
+    }
+    return response.choices[0].message.content || '';
+  },
+
+  parseStreamEvent: (data) => {
+    // OpenAI, OpenRouter and Ollama all terminate the stream with a literal [DONE]
+    if (data === '[DONE]') return '';
+
+    const chunk: OpenAIResponse = JSON.parse(data);
+    if (chunk.error) {
+      throw AIRequestError.fromStreamError('OpenAI', chunk.error.message || 'Stream interrupted', chunk.error.code || chunk.error.type);
+    }
+    if (chunk.choices?.[0]?.finish_reason === 'content_filter') {
+      throw new AIRequestError('content-blocked', 'The response was stopped by the content filter');
+    }
+    return chunk.choices?.[0]?.delta?.content || '';
+  },
+
+  listModels: async (config, preset) => {
+    if (preset?.name === 'Ollama') {
+      return listOllamaModels(config);
+    }
+
+    const response = await fetch(`${config.baseURL}/models`, {
+      headers: {
+        'Authorization': `Bearer ${config.apiKey}`,
+        'Content-Type': 'application/json'
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data: { data?: OpenAIModel[] } = await response.json();
+
+    if (!data.data || !Array.isArray(data.data)) {
+      throw new Error('Invalid response format from OpenAI API');
+    }
+
+    // Filter and sort models - prioritize GPT models and commonly used ones
+    return data.data
+      .filter(model => {
+        // Filter out fine-tuned models and system models
+        return !model.id.includes(':') && !model.id.startsWith('system-');
+      })
+      .map((model): ModelInfo => ({
+        id: model.id,
+        displayName: model.name,
+        inputTokenLimit: model.context_length,
+        outputTokenLimit: model.top_provider?.max_completion_tokens || undefined,
+        vision: model.architecture?.input_modalities?.includes('image'),
+        tools: model.supported_parameters?.includes('tools'),
+        jsonMode: model.supported_parameters?.includes('response_format')
+      }))
+      .sort((a, b) => {
+        // Prioritize GPT models
+        const aIsGPT = a.id.includes('gpt');
+        const bIsGPT = b.id.includes('gpt');
+
+        if (aIsGPT && !bIsGPT) return -1;
+        if (!aIsGPT && bIsGPT) return 1;
+
+        // Then sort alphabetically
+        return a.id.localeCompare(b.id);
+      });
+  },
+
+  encodeImage: (image) => ({
+    type: 'image_url',
+    image_url: {
+      url: `data:${image.mimeType};base64,${image.data}`
+    }
+  })
+};
@@ -0,0 +1,19 @@
+import { GenerationParams, ProviderAdapter } from '../types';
+
+/**
+ * Merge requested parameters over the adapter defaults, dropping the ones the provider doesn't support
+ */
+export const resolveParams = (adapter: ProviderAdapter, params?: GenerationParams): GenerationParams => {
+  const merged: GenerationParams = { ...adapter.defaultParams, ...params };
+  const resolved: GenerationParams = {};
+
+  adapter.supportedParams.forEach(key => {
+    const value = merged[key];
+    // Empty stop sequence lists are treated as unset
+    if (value !== undefined && !(Array.isArray(value) && value.length === 0)) {
+      (resolved as Record<string, unknown>)[key] = value;
+    }
+  });
+
+  return resolved;
+};
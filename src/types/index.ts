@@ -15,11 +15,48 @@ export interface ChatMessage {
   timestamp: Date;
   codeBlocks?: CodeBlock[];
   attachments?: FileAttachment[];
+  stopped?: boolean; // Generation was cancelled before the response completed
+  error?: ChatMessageError; // Set on AI messages that report a failed request instead of a reply
+  provider?: Provider; // Provider and model that wrote an AI reply
+  model?: string;
+  parentId?: string | null; // Message this one answers or follows; unset means the previous message in the list
+  mode?: OperationMode; // Mode a user message was sent in, reused when its reply is regenerated
+  pinned?: boolean; // Always sent as context, however far back it is
+}
+
+// Overrides for regenerating a reply; unset fields keep what the conversation uses
+export interface RegenerateOptions {
+  profileId?: string;
+  temperature?: number;
+}
+
+// Message opened from a search result, with the text to mark in it
+export interface SearchHighlight {
+  conversationId: string;
+  messageId: string;
+  query: string;
+}
+
+export type AIErrorCategory =
+  | 'auth'
+  | 'rate-limit'
+  | 'quota'
+  | 'model-not-found'
+  | 'content-blocked'
+  | 'network'
+  | 'server'
+  | 'unknown';
+
+export interface ChatMessageError {
+  category: AIErrorCategory;
+  message: string;
+  status?: number; // HTTP status, when the provider answered at all
 }
 
 export interface CodeBlock {
-  language: string;
+  language: string; // Empty when the fence names none - detected when highlighted
   code: string;
+  title?: string; // Filename from the fence's info string, e.g. ```ts title="a.ts"
 }
 
 export interface FileAttachment {
@@ -27,17 +64,19 @@ export interface FileAttachment {
   name: string;
   type: string;
   size: number;
-  content: string; // Base64 for images, text content for documents
+  content: string; // Base64 for images, text content for documents - empty for stored images until loaded
   url?: string; // For displaying images
   documentPages?: DocumentPage[]; // For PDF pages converted to images
+  pinned?: boolean; // Always sent as context, even when the message it came with is not
 }
 
 export interface DocumentPage {
   pageNumber: number;
-  imageBase64: string;
+  imageBase64: string; // Empty for stored pages until loaded
   textContent?: string;
 }
 
+// Position of a message among its alternative versions (edits and regenerated replies), shown as < 2/3 >
 export interface VersionInfo {
   currentVersion: number;
   totalVersions: number;
@@ -53,7 +92,170 @@ export interface FileVersion {
 
 export type OperationMode = 'none' | 'code' | 'webapp';
 
-export type Provider = 'Gemini' | 'OpenAI';
+// A named chat thread with its own settings
+export interface Conversation {
+  id: string;
+  title: string;
+  titleEdited?: boolean; // Renamed by hand, so generated titles leave it alone
+  summary?: string; // One line written by the model after the first exchange
+  messages: ChatMessage[]; // Every branch, in creation order (see ConversationTree)
+  activeLeafId?: string; // Last message of the branch being shown; the newest message when unset
+  mode: OperationMode;
+  systemPrompt: string;
+  systemPromptEnabled: boolean;
+  profileId: string | null; // Provider profile used in this conversation
+  generationParams: Partial<Record<OperationMode, GenerationParams>>; // Overrides, one set per mode
+  archived?: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Settings and history of a conversation as written to an archive file - profiles and ids stay local
+export type ArchivedConversation = Pick<
+  Conversation,
+  'title' | 'titleEdited' | 'summary' | 'messages' | 'activeLeafId' | 'mode' | 'systemPrompt' | 'systemPromptEnabled' | 'generationParams' | 'createdAt' | 'updatedAt'
+>;
+
+// Lossless JSON export of one conversation; older versions are migrated on import (see ConversationArchive)
+export interface ConversationArchiveFile {
+  format: 'ai-nodecoder-conversation';
+  version: 2;
+  exportedAt: Date;
+  attachmentsEmbedded: boolean; // Image data and PDF page images are only included when true
+  conversation: ArchivedConversation;
+}
+
+// Id of a registered provider adapter (see src/providers)
+export type Provider = string;
+
+// Unset fields fall back to the profile defaults, then to the adapter defaults
+export interface GenerationParams {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  stopSequences?: string[];
+  seed?: number;
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+}
+
+// API keys encrypted with a passphrase (PBKDF2 + AES-GCM) - safe to persist and move between machines
+export interface EncryptedVault {
+  version: 1;
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string; // Base64
+  iv: string; // Base64
+  ciphertext: string; // Base64 AES-GCM output of the JSON-encoded keys
+}
+
+export interface ProviderConfig {
+  provider: Provider;
+  model: string;
+  apiKey: string;
+  baseURL?: string;
+  params?: GenerationParams; // Overrides the adapter's defaults
+}
+
+// A saved provider/model combination that can be switched to without going through the setup wizard
+export interface ProviderProfile {
+  id: string;
+  name: string;
+  provider: Provider;
+  baseURL?: string;
+  model: string;
+  keyRef: string; // Identifies the API key - keys are never stored on the profile itself
+  requiresApiKey: boolean;
+  defaultParams?: GenerationParams;
+  modelInfo?: ModelInfo; // What the provider's model listing reported when the profile was created
+}
+
+// Metadata from a provider's model listing - fields the provider doesn't report are left unset
+export interface ModelInfo {
+  id: string;
+  displayName?: string;
+  inputTokenLimit?: number;
+  outputTokenLimit?: number;
+  vision?: boolean;
+  tools?: boolean;
+  jsonMode?: boolean;
+}
+
+// Resolved from the provider listing first, then the local overrides table; undefined means unknown
+export interface ModelCapabilities {
+  contextTokens: number;
+  maxOutputTokens?: number;
+  vision?: boolean;
+  tools?: boolean;
+  jsonMode?: boolean;
+}
+
+export interface ImageInput {
+  mimeType: string;
+  data: string; // Base64 without the data URL prefix
+}
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  text: string;
+  images: ImageInput[]; // Only sent on user turns
+}
+
+export interface ChatRequest {
+  system?: string; // Sent through the provider's native system channel
+  turns: ConversationTurn[]; // Alternating user/assistant turns, starting and ending with a user turn
+}
+
+export interface StorageUsage {
+  usedBytes?: number; // From navigator.storage.estimate, when the browser supports it
+  quotaBytes?: number;
+  error?: string; // Set when saving failed, e.g. because the quota ran out
+}
+
+export interface ContextUsage {
+  usedTokens: number; // Estimated tokens of the system prompt and the history that fits
+  limitTokens: number; // Input budget: the model's context window, less reservedTokens
+  reservedTokens: number; // Held back for the reply on models whose window covers input and output
+  includedMessages: number;
+  omittedMessages: number; // Older messages dropped (and summarized) to fit the budget
+  pinnedTokens: number; // Part of usedTokens taken by pinned messages and attachments
+  pinnedItems: number;
+}
+
+export interface ProviderHttpRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+// A preconfigured endpoint offered by an adapter, e.g. OpenRouter or Ollama for the OpenAI-compatible adapter
+export interface ProviderPreset {
+  name: string;
+  baseURL: string;
+  description: string;
+  requiresApiKey: boolean;
+  isCustom?: boolean;
+  fetchModels?: boolean; // Fetch the model list instead of asking for a model name
+  modelPlaceholder?: string;
+  modelHint?: string;
+}
+
+export interface ProviderAdapter {
+  id: Provider;
+  label: string;
+  description: string;
+  defaultBaseURL?: string;
+  presets?: ProviderPreset[];
+  defaultParams: GenerationParams;
+  sharedContextWindow?: boolean; // The context window covers the reply too, so its max output tokens can't be used for history
+  supportedParams: (keyof GenerationParams)[]; // Anything else is dropped before the request is built
+  buildRequest: (config: ProviderConfig, request: ChatRequest, stream: boolean) => ProviderHttpRequest;
+  parseResponse: (data: unknown) => string;
+  parseStreamEvent: (data: string) => string; // Returns the text delta carried by one SSE event
+  listModels: (config: ProviderConfig, preset?: ProviderPreset) => Promise<ModelInfo[]>;
+  encodeImage: (image: ImageInput) => unknown;
+}
 
 export interface AppState {
   provider: Provider | null;
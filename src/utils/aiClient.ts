@@ -0,0 +1,136 @@
+import { ChatRequest, ProviderConfig } from '../types';
+import { getProviderAdapter } from '../providers';
+import { SSEReader } from './sseReader';
+import { AIRequestError } from './aiRequestError';
+
+export interface RetryNotice {
+  attempt: number; // 1-based number of the retry about to be made
+  maxRetries: number;
+  delayMs: number;
+  error: AIRequestError;
+}
+
+interface RequestOptions {
+  signal?: AbortSignal;
+  onRetry?: (notice: RetryNotice) => void; // Called before waiting out each backoff delay
+}
+
+interface StreamOptions extends RequestOptions {
+  onChunk?: (partialContent: string) => void; // Receives the accumulated text after every delta
+}
+
+const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+// A Retry-After longer than this is reported instead of waited out
+const MAX_RETRY_DELAY_MS = 60_000;
+
+export class AIClient {
+  /**
+   * Wait for the given delay, rejecting early if the request is aborted
+   */
+  private static wait(delayMs: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new DOMException('Aborted', 'AbortError'));
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new DOMException('Aborted', 'AbortError'));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, delayMs);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Backoff before the given retry: Retry-After when the provider sent one, otherwise exponential with jitter
+   */
+  private static getRetryDelay(error: AIRequestError, attempt: number): number {
+    if (error.retryAfterMs !== undefined) {
+      return error.retryAfterMs;
+    }
+    return BASE_RETRY_DELAY_MS * 2 ** (attempt - 1) + Math.random() * BASE_RETRY_DELAY_MS;
+  }
+
+  /**
+   * Send a request through the provider's adapter and return the raw response
+   */
+  private static async sendOnce(config: ProviderConfig, request: ChatRequest, stream: boolean, signal?: AbortSignal): Promise<Response> {
+    const adapter = getProviderAdapter(config.provider);
+    const { url, headers, body } = adapter.buildRequest(config, request, stream);
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+        signal
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw AIRequestError.fromNetworkError(adapter.label, error);
+    }
+
+    if (!response.ok) {
+      throw await AIRequestError.fromResponse(adapter.label, response);
+    }
+
+    return response;
+  }
+
+  /**
+   * Send a request, retrying rate-limit and server errors with backoff until a response arrives
+   */
+  private static async send(config: ProviderConfig, request: ChatRequest, stream: boolean, options: RequestOptions): Promise<Response> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.sendOnce(config, request, stream, options.signal);
+      } catch (error) {
+        if (options.signal?.aborted || !(error instanceof AIRequestError) || !error.retryable || attempt > MAX_RETRIES) {
+          throw error;
+        }
+
+        const delayMs = this.getRetryDelay(error, attempt);
+        if (delayMs > MAX_RETRY_DELAY_MS) {
+          throw error;
+        }
+        options.onRetry?.({ attempt, maxRetries: MAX_RETRIES, delayMs, error });
+        await this.wait(delayMs, options.signal);
+      }
+    }
+  }
+
+  /**
+   * Stream a chat response, reporting partial content as it arrives
+   */
+  static async streamChat(config: ProviderConfig, request: ChatRequest, options: StreamOptions = {}): Promise<string> {
+    const adapter = getProviderAdapter(config.provider);
+    // Only the initial request is retried - a stream that fails halfway has already shown partial output
+    const response = await this.send(config, request, true, options);
+
+    let fullText = '';
+    await SSEReader.read(response, (data) => {
+      const delta = adapter.parseStreamEvent(data);
+      if (delta) {
+        fullText += delta;
+        options.onChunk?.(fullText);
+      }
+    });
+
+    return fullText || `No response from ${adapter.label} API`;
+  }
+
+  /**
+   * Request a complete (non-streamed) chat response
+   */
+  static async complete(config: ProviderConfig, request: ChatRequest, signal?: AbortSignal): Promise<string> {
+    const adapter = getProviderAdapter(config.provider);
+    const response = await this.send(config, request, false, { signal });
+    return adapter.parseResponse(await response.json());
+  }
+}
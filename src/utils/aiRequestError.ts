@@ -0,0 +1,117 @@
+import { AIErrorCategory, ChatMessageError } from '../types';
+
+interface ProviderErrorBody {
+  error?: {
+    message?: string;
+    type?: string; // OpenAI and Anthropic
+    code?: string | number; // OpenAI (string) and Gemini (number)
+    status?: string; // Gemini, e.g. RESOURCE_EXHAUSTED
+  };
+}
+
+// Only these are worth retrying automatically - the others fail the same way every time
+const RETRYABLE_CATEGORIES: AIErrorCategory[] = ['rate-limit', 'server'];
+
+export class AIRequestError extends Error {
+  category: AIErrorCategory;
+  status?: number;
+  retryAfterMs?: number; // From the Retry-After header, when the provider sent one
+
+  constructor(category: AIErrorCategory, message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'AIRequestError';
+    this.category = category;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_CATEGORIES.includes(this.category);
+  }
+
+  /**
+   * Serializable form stored on the chat message
+   */
+  toMessageError(): ChatMessageError {
+    return { category: this.category, message: this.message, status: this.status };
+  }
+
+  /**
+   * Classify an error from its HTTP status and the provider's error code and message
+   */
+  static classify(status: number | undefined, message: string, code?: string): AIErrorCategory {
+    const text = `${code || ''} ${message}`.toLowerCase();
+
+    // Checked before auth and rate limits: OpenAI reports exhausted credit as a 429
+    if (status === 402 || /insufficient_quota|billing|credit balance|exceeded your current quota/.test(text)) return 'quota';
+    if (status === 401 || status === 403 || /api[ _-]?key|unauthori[sz]ed|authentication|permission_denied/.test(text)) return 'auth';
+    if (status === 429 || /rate[ _-]?limit|resource_exhausted|too many requests/.test(text)) return 'rate-limit';
+    if (status === 404 || /model.*(not found|does not exist)|not_found/.test(text)) return 'model-not-found';
+    if (/safety|blocked|content[ _-]?(policy|filter)|refus/.test(text)) return 'content-blocked';
+    // 529 is Anthropic's "overloaded"
+    if (status === 408 || status === 529 || (status !== undefined && status >= 500) || /overloaded|unavailable|internal|timeout/.test(text)) return 'server';
+    return 'unknown';
+  }
+
+  /**
+   * Parse Retry-After (seconds or an HTTP date) into milliseconds
+   */
+  static parseRetryAfter(headers: Headers): number | undefined {
+    const milliseconds = headers.get('retry-after-ms');
+    if (milliseconds && !isNaN(Number(milliseconds))) {
+      return Number(milliseconds);
+    }
+
+    const value = headers.get('retry-after');
+    if (!value) return undefined;
+
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * Build an error from a non-2xx provider response
+   */
+  static async fromResponse(providerLabel: string, response: Response): Promise<AIRequestError> {
+    const body: ProviderErrorBody = await response.json().catch(() => ({}));
+    const detail = body.error?.message || response.statusText || 'Request failed';
+    const code = [body.error?.type, body.error?.code, body.error?.status].filter(Boolean).join(' ');
+
+    return new AIRequestError(
+      this.classify(response.status, detail, code),
+      `${providerLabel} API error: ${response.status}. ${detail}`,
+      response.status,
+      this.parseRetryAfter(response.headers)
+    );
+  }
+
+  /**
+   * Build an error from a failed fetch - the browser reports CORS and connection failures the same way
+   */
+  static fromNetworkError(providerLabel: string, error: unknown): AIRequestError {
+    const detail = error instanceof Error ? error.message : 'Network request failed';
+    return new AIRequestError('network', `Could not reach the ${providerLabel} API: ${detail}`);
+  }
+
+  /**
+   * Build an error reported inside a stream, where there is no HTTP status
+   */
+  static fromStreamError(providerLabel: string, message: string, code?: string): AIRequestError {
+    return new AIRequestError(this.classify(undefined, message, code), `${providerLabel} API error: ${message}`);
+  }
+
+  /**
+   * Convert anything thrown by a request into a chat message error
+   */
+  static toChatError(error: unknown): ChatMessageError {
+    if (error instanceof AIRequestError) {
+      return error.toMessageError();
+    }
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    return { category: this.classify(undefined, message), message };
+  }
+}
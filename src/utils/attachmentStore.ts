@@ -0,0 +1,192 @@
+import { ChatMessage, Conversation, FileAttachment } from '../types';
+import { ChatDatabase } from './chatDatabase';
+import { ConversationBuilder } from './conversationBuilder';
+
+interface LoadedAttachment {
+  content?: string; // Image data URL
+  url?: string; // Object URL for display
+  pages: Record<number, string>; // Page number -> base64 JPEG
+}
+
+export class AttachmentStore {
+  // Blob keys known to be in the database, so unchanged attachments aren't written again
+  private static storedKeys: Set<string> | null = null;
+
+  /**
+   * Blob key of an image attachment
+   */
+  static getImageKey(attachment: FileAttachment): string {
+    return attachment.id;
+  }
+
+  /**
+   * Blob key of a PDF page image
+   */
+  static getPageKey(attachment: FileAttachment, pageNumber: number): string {
+    return `${attachment.id}:page-${pageNumber}`;
+  }
+
+  private static async getStoredKeys(): Promise<Set<string>> {
+    if (!this.storedKeys) {
+      this.storedKeys = new Set(await ChatDatabase.getBlobKeys());
+    }
+    return this.storedKeys;
+  }
+
+  /**
+   * Decode base64 data into a Blob
+   */
+  static base64ToBlob(base64: string, mimeType: string): Blob {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: mimeType });
+  }
+
+  /**
+   * Read a Blob back as a data URL
+   */
+  static blobToDataURL(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  }
+
+  /**
+   * Move image data out of the messages into the blob store, leaving only references (the attachment ids)
+   */
+  static async dehydrate(messages: ChatMessage[]): Promise<ChatMessage[]> {
+    const storedKeys = await this.getStoredKeys();
+    const blobs = new Map<string, Blob>();
+
+    const stripped = messages.map(message => {
+      if (!message.attachments || message.attachments.length === 0) return message;
+
+      return {
+        ...message,
+        attachments: message.attachments.map(attachment => {
+          // Object URLs don't survive a reload, so they're never stored
+          const stored: FileAttachment = { ...attachment };
+          delete stored.url;
+
+          if (attachment.type.startsWith('image/')) {
+            const key = this.getImageKey(attachment);
+            if (attachment.content && !storedKeys.has(key)) {
+              const mimeType = attachment.content.substring(5, attachment.content.indexOf(';')) || attachment.type;
+              blobs.set(key, this.base64ToBlob(ConversationBuilder.extractBase64FromDataURL(attachment.content), mimeType));
+            }
+            stored.content = '';
+          }
+
+          if (attachment.documentPages) {
+            stored.documentPages = attachment.documentPages.map(page => {
+              const key = this.getPageKey(attachment, page.pageNumber);
+              if (page.imageBase64 && !storedKeys.has(key)) {
+                blobs.set(key, this.base64ToBlob(page.imageBase64, 'image/jpeg'));
+              }
+              return { ...page, imageBase64: '' };
+            });
+          }
+
+          return stored;
+        })
+      };
+    });
+
+    await ChatDatabase.putBlobs(blobs);
+    blobs.forEach((_, key) => storedKeys.add(key));
+    return stripped;
+  }
+
+  /**
+   * Whether any attachment in the messages is still waiting for its image data
+   */
+  static needsLoading(messages: ChatMessage[]): boolean {
+    return messages.some(message => message.attachments?.some(attachment =>
+      (attachment.type.startsWith('image/') && !attachment.content) ||
+      attachment.documentPages?.some(page => !page.imageBase64)
+    ));
+  }
+
+  /**
+   * Load the image data of stored attachments, keyed by attachment id - with object URLs for display unless createURLs is false
+   */
+  static async load(messages: ChatMessage[], createURLs = true): Promise<Map<string, LoadedAttachment>> {
+    const loaded = new Map<string, LoadedAttachment>();
+
+    for (const message of messages) {
+      for (const attachment of message.attachments || []) {
+        const entry: LoadedAttachment = { pages: {} };
+
+        if (attachment.type.startsWith('image/') && !attachment.content) {
+          const blob = await ChatDatabase.getBlob(this.getImageKey(attachment));
+          if (blob) {
+            entry.content = await this.blobToDataURL(blob);
+            if (createURLs) entry.url = URL.createObjectURL(blob);
+          }
+        }
+
+        for (const page of attachment.documentPages || []) {
+          if (page.imageBase64) continue;
+          const blob = await ChatDatabase.getBlob(this.getPageKey(attachment, page.pageNumber));
+          if (blob) {
+            entry.pages[page.pageNumber] = ConversationBuilder.extractBase64FromDataURL(await this.blobToDataURL(blob));
+          }
+        }
+
+        if (entry.content || Object.keys(entry.pages).length > 0) {
+          loaded.set(attachment.id, entry);
+        }
+      }
+    }
+
+    return loaded;
+  }
+
+  /**
+   * Fill loaded image data back into the messages
+   */
+  static apply(messages: ChatMessage[], loaded: Map<string, LoadedAttachment>): ChatMessage[] {
+    return messages.map(message => {
+      if (!message.attachments?.some(attachment => loaded.has(attachment.id))) return message;
+
+      return {
+        ...message,
+        attachments: message.attachments.map(attachment => {
+          const entry = loaded.get(attachment.id);
+          if (!entry) return attachment;
+          return {
+            ...attachment,
+            content: attachment.content || entry.content || '',
+            url: attachment.url || entry.url,
+            documentPages: attachment.documentPages?.map(page => ({
+              ...page,
+              imageBase64: page.imageBase64 || entry.pages[page.pageNumber] || ''
+            }))
+          };
+        })
+      };
+    });
+  }
+
+  /**
+   * Delete blobs no conversation refers to any more
+   */
+  static async collectGarbage(conversations: Conversation[]): Promise<void> {
+    const referenced = new Set<string>();
+    conversations.forEach(conversation => conversation.messages.forEach(message => message.attachments?.forEach(attachment => {
+      referenced.add(this.getImageKey(attachment));
+      attachment.documentPages?.forEach(page => referenced.add(this.getPageKey(attachment, page.pageNumber)));
+    })));
+
+    const storedKeys = await this.getStoredKeys();
+    const unreferenced = [...storedKeys].filter(key => !referenced.has(key));
+    await ChatDatabase.deleteBlobs(unreferenced);
+    unreferenced.forEach(key => storedKeys.delete(key));
+  }
+}
@@ -0,0 +1,112 @@
+import { Conversation } from '../types';
+
+const DB_NAME = 'ai-nodecoder';
+const DB_VERSION = 1;
+const CONVERSATIONS_STORE = 'conversations';
+const BLOBS_STORE = 'blobs'; // Attachment images and PDF pages, keyed by attachment id
+
+// Wrap an IDBRequest in a promise
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Resolves once a write transaction has been committed
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+  });
+};
+
+export class ChatDatabase {
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Open the database once, creating the object stores on first use
+   */
+  static open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (!window.indexedDB) {
+          reject(new Error('IndexedDB is not available in this browser'));
+          return;
+        }
+        const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(CONVERSATIONS_STORE)) {
+            db.createObjectStore(CONVERSATIONS_STORE, { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains(BLOBS_STORE)) {
+            db.createObjectStore(BLOBS_STORE);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow another attempt after a failed open
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * All stored conversations - their attachments still have to be loaded from the blob store
+   */
+  static async loadConversations(): Promise<Conversation[]> {
+    const db = await this.open();
+    const store = db.transaction(CONVERSATIONS_STORE, 'readonly').objectStore(CONVERSATIONS_STORE);
+    return requestToPromise(store.getAll() as IDBRequest<Conversation[]>);
+  }
+
+  static async putConversations(conversations: Conversation[]): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(CONVERSATIONS_STORE, 'readwrite');
+    const store = transaction.objectStore(CONVERSATIONS_STORE);
+    conversations.forEach(conversation => store.put(conversation));
+    await transactionDone(transaction);
+  }
+
+  static async deleteConversation(conversationId: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(CONVERSATIONS_STORE, 'readwrite');
+    transaction.objectStore(CONVERSATIONS_STORE).delete(conversationId);
+    await transactionDone(transaction);
+  }
+
+  static async putBlobs(blobs: Map<string, Blob>): Promise<void> {
+    if (blobs.size === 0) return;
+    const db = await this.open();
+    const transaction = db.transaction(BLOBS_STORE, 'readwrite');
+    const store = transaction.objectStore(BLOBS_STORE);
+    blobs.forEach((blob, key) => store.put(blob, key));
+    await transactionDone(transaction);
+  }
+
+  static async getBlob(key: string): Promise<Blob | undefined> {
+    const db = await this.open();
+    const store = db.transaction(BLOBS_STORE, 'readonly').objectStore(BLOBS_STORE);
+    return requestToPromise(store.get(key) as IDBRequest<Blob | undefined>);
+  }
+
+  static async getBlobKeys(): Promise<string[]> {
+    const db = await this.open();
+    const store = db.transaction(BLOBS_STORE, 'readonly').objectStore(BLOBS_STORE);
+    return requestToPromise(store.getAllKeys()) as Promise<string[]>;
+  }
+
+  static async deleteBlobs(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    const db = await this.open();
+    const transaction = db.transaction(BLOBS_STORE, 'readwrite');
+    const store = transaction.objectStore(BLOBS_STORE);
+    keys.forEach(key => store.delete(key));
+    await transactionDone(transaction);
+  }
+}
@@ -0,0 +1,71 @@
+import { CodeBlock } from '../types';
+
+// Piece of a message in reading order: prose between fences, or one fenced block
+export type MessageSegment =
+  | { type: 'markdown'; text: string }
+  | { type: 'code'; block: CodeBlock };
+
+// CommonMark fences: ``` or ~~~ (three or more), indented at most three spaces; backtick info strings can't contain backticks
+const OPENING_FENCE = /^( {0,3})(`{3,}|~{3,})(.*)$/;
+const TITLE_PATTERN = /\b(?:title|filename|file)=(?:"([^"]*)"|'([^']*)'|([^\s}]+))/i;
+
+export class CodeFences {
+  /**
+   * Language and filename from a fence's info string, e.g. ts title="a.ts" or {.py filename=main.py}
+   */
+  static parseInfo(info: string): Pick<CodeBlock, 'language' | 'title'> {
+    const titleMatch = info.match(TITLE_PATTERN);
+    const title = titleMatch ? (titleMatch[1] ?? titleMatch[2] ?? titleMatch[3]).trim() : '';
+    const firstWord = info.replace(/^[\s{]+/, '').split(/[\s{}]+/)[0] || '';
+    const language = firstWord.includes('=') ? '' : firstWord.replace(/^\./, '');
+    return title ? { language, title } : { language };
+  }
+
+  /**
+   * Split markdown into prose and fenced code blocks in their original order - an unclosed fence runs to the end, as while streaming
+   */
+  static split(content: string): MessageSegment[] {
+    const segments: MessageSegment[] = [];
+    const prose: string[] = [];
+    const lines = content.split('\n');
+
+    const flushProse = () => {
+      const text = prose.join('\n');
+      if (text.trim()) {
+        segments.push({ type: 'markdown', text });
+      }
+      prose.length = 0;
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+      const opening = lines[i].match(OPENING_FENCE);
+      if (!opening || (opening[2][0] === '`' && opening[3].includes('`'))) {
+        prose.push(lines[i]);
+        continue;
+      }
+
+      const [, indent, fence, info] = opening;
+      const closing = new RegExp(`^ {0,3}${fence[0] === '`' ? '`' : '~'}{${fence.length},}\\s*$`);
+      const codeLines: string[] = [];
+      // Content lines lose up to as many leading spaces as the fence was indented
+      const stripIndent = new RegExp(`^ {0,${indent.length}}`);
+
+      for (i++; i < lines.length && !closing.test(lines[i]); i++) {
+        codeLines.push(lines[i].replace(stripIndent, ''));
+      }
+
+      flushProse();
+      segments.push({ type: 'code', block: { ...this.parseInfo(info.trim()), code: codeLines.join('\n') } });
+    }
+
+    flushProse();
+    return segments;
+  }
+
+  /**
+   * Every fenced code block of a message, in order
+   */
+  static extract(content: string): CodeBlock[] {
+    return this.split(content).flatMap(segment => segment.type === 'code' ? [segment.block] : []);
+  }
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { ChatMessage } from '../types';
+import { ContextManager } from './contextManager';
+
+// Alternating turns of roughly 1 000 tokens each
+const history = (count: number): ChatMessage[] => Array.from({ length: count }, (_, index) => ({
+  id: `message-${index}`,
+  role: index % 2 === 0 ? 'user' : 'ai',
+  content: 'x'.repeat(4_000),
+  timestamp: new Date(2024, 0, 1, 0, index),
+  ...(index % 2 === 1 && { model: 'gpt-4' })
+}));
+
+const prompt: ChatMessage = { id: 'prompt', role: 'user', content: 'next question', timestamp: new Date(2024, 0, 2) };
+
+describe('ContextManager.selectContext', () => {
+  it('keeps the reply budget free on models whose window includes the output', () => {
+    const { usage } = ContextManager.selectContext(history(20), prompt, { limitTokens: 8_192, reservedOutputTokens: 4_096 });
+    expect(usage.reservedTokens).toBe(4_096);
+    expect(usage.limitTokens).toBe(4_096);
+    expect(usage.usedTokens + 4_096).toBeLessThanOrEqual(8_192);
+    expect(usage.omittedMessages).toBeGreaterThan(0);
+  });
+
+  it('uses the whole window when nothing is reserved', () => {
+    const { usage } = ContextManager.selectContext(history(20), prompt, { limitTokens: 8_192 });
+    expect(usage.reservedTokens).toBe(0);
+    expect(usage.limitTokens).toBe(8_192);
+    expect(usage.includedMessages).toBeGreaterThan(4);
+  });
+
+  it('never reserves more than half the window', () => {
+    const { usage } = ContextManager.selectContext(history(4), prompt, { limitTokens: 8_192, reservedOutputTokens: 100_000 });
+    expect(usage.reservedTokens).toBe(4_096);
+    expect(usage.limitTokens).toBe(4_096);
+  });
+});
@@ -0,0 +1,152 @@
+import { ChatMessage, ContextUsage, Provider } from '../types';
+import { ConversationBuilder } from './conversationBuilder';
+import { ModelCapabilityRegistry } from './modelCapabilities';
+
+interface ContextSelection {
+  messages: ChatMessage[]; // History that fits the budget, oldest first, ending with the current message
+  summary?: string; // Notes on the turns that had to be dropped
+  usage: ContextUsage;
+}
+
+// Rough per-image cost; providers tokenize images very differently
+const IMAGE_TOKENS: Record<string, number> = {
+  Gemini: 258,
+  Anthropic: 1_600,
+};
+const DEFAULT_IMAGE_TOKENS = 765;
+
+// Per-message overhead for role markers and separators
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Share of the budget the summary of dropped turns may take
+const SUMMARY_BUDGET_RATIO = 0.1;
+const SUMMARY_LINE_LENGTH = 160;
+
+// A huge output setting never takes more than this share of the window, so some history always fits
+const MAX_RESERVED_RATIO = 0.5;
+
+export class ContextManager {
+  /**
+   * Estimate the token count of a piece of text (~4 characters per token)
+   */
+  static estimateTextTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+
+  /**
+   * Estimate the tokens a message costs, including its text attachments and images
+   */
+  static estimateMessageTokens(message: ChatMessage, provider?: Provider | null): number {
+    const turn = ConversationBuilder.toTurn(message);
+    const imageTokens = (provider && IMAGE_TOKENS[provider]) || DEFAULT_IMAGE_TOKENS;
+    return this.estimateTextTokens(turn.text) + turn.images.length * imageTokens + MESSAGE_OVERHEAD_TOKENS;
+  }
+
+  /**
+   * Input token limit for a model, from the capability registry
+   */
+  static getInputTokenLimit(model?: string | null): number {
+    return ModelCapabilityRegistry.resolve(model).contextTokens;
+  }
+
+  /**
+   * Summarize dropped turns as short notes, newest first, within the given budget
+   */
+  static summarizeDropped(dropped: ChatMessage[], budget: number): string | undefined {
+    if (dropped.length === 0 || budget <= 0) return undefined;
+
+    const header = `Summary of ${dropped.length} earlier message(s) omitted to fit the context window:`;
+    let remaining = budget - this.estimateTextTokens(header);
+    const lines: string[] = [];
+
+    for (let i = dropped.length - 1; i >= 0; i--) {
+      const message = dropped[i];
+      const flattened = message.content.replace(/```[\s\S]*?```/g, '[code]').replace(/\s+/g, ' ').trim();
+      const snippet = flattened.length > SUMMARY_LINE_LENGTH ? `${flattened.substring(0, SUMMARY_LINE_LENGTH)}...` : flattened;
+      const line = `- ${message.role === 'user' ? 'user' : 'assistant'}: ${snippet}`;
+      const cost = this.estimateTextTokens(line) + 1;
+      if (cost > remaining) break;
+      lines.unshift(line);
+      remaining -= cost;
+    }
+
+    return lines.length > 0 ? `${header}\n${lines.join('\n')}` : undefined;
+  }
+
+  /**
+   * Pinned messages, plus pinned attachments of unpinned messages as messages carrying just those attachments
+   */
+  static getPinnedItems(messages: ChatMessage[]): ChatMessage[] {
+    const items: ChatMessage[] = [];
+
+    messages.filter(message => ConversationBuilder.isConversationMessage(message)).forEach(message => {
+      if (message.pinned) {
+        items.push(message);
+        return;
+      }
+      const attachments = message.attachments?.filter(attachment => attachment.pinned);
+      if (attachments && attachments.length > 0) {
+        items.push({ ...message, content: 'Pinned attachment(s) from earlier in the conversation:', attachments });
+      }
+    });
+
+    return items;
+  }
+
+  /**
+   * Fill the model's input budget: pinned items and the current message first, then history newest-first.
+   * reservedOutputTokens is taken off the window first, for models that count the reply against it
+   */
+  static selectContext(
+    history: ChatMessage[],
+    currentMessage: ChatMessage | null,
+    options: { model?: string | null; provider?: Provider | null; system?: string; limitTokens?: number; reservedOutputTokens?: number }
+  ): ContextSelection {
+    const windowTokens = options.limitTokens ?? this.getInputTokenLimit(options.model);
+    const reservedTokens = Math.min(options.reservedOutputTokens ?? 0, Math.floor(windowTokens * MAX_RESERVED_RATIO));
+    const limitTokens = windowTokens - reservedTokens;
+    const systemTokens = options.system ? this.estimateTextTokens(options.system) : 0;
+    const currentTokens = currentMessage ? this.estimateMessageTokens(currentMessage, options.provider) : 0;
+
+    const candidates = history.filter(message => ConversationBuilder.isConversationMessage(message));
+    const pinnedItems = this.getPinnedItems(candidates);
+    const pinnedCosts = new Map(pinnedItems.map(item => [item.id, this.estimateMessageTokens(item, options.provider)]));
+    const pinnedTokens = [...pinnedCosts.values()].reduce((sum, cost) => sum + cost, 0);
+    let usedTokens = systemTokens + currentTokens + pinnedTokens;
+    let firstIncluded = candidates.length;
+
+    for (let i = candidates.length - 1; i >= 0; i--) {
+      const message = candidates[i];
+      // Pinned items are already paid for; a message with pinned attachments only costs the rest of it
+      const cost = message.pinned ? 0 : this.estimateMessageTokens(message, options.provider) - (pinnedCosts.get(message.id) || 0);
+      if (usedTokens + cost > limitTokens) break;
+      usedTokens += cost;
+      firstIncluded = i;
+    }
+
+    // Pins older than the window are sent ahead of it, in their original order
+    const earlierIds = new Set(candidates.slice(0, firstIncluded).map(message => message.id));
+    const earlierPins = pinnedItems.filter(item => earlierIds.has(item.id));
+    const dropped = candidates.slice(0, firstIncluded).filter(message => !message.pinned);
+    const summaryBudget = Math.min(limitTokens - usedTokens, Math.floor(limitTokens * SUMMARY_BUDGET_RATIO));
+    const summary = this.summarizeDropped(dropped, summaryBudget);
+    if (summary) {
+      usedTokens += this.estimateTextTokens(summary);
+    }
+
+    const included = [...earlierPins, ...candidates.slice(firstIncluded)];
+    return {
+      messages: currentMessage ? [...included, currentMessage] : included,
+      summary,
+      usage: {
+        usedTokens,
+        limitTokens,
+        reservedTokens,
+        includedMessages: included.length,
+        omittedMessages: dropped.length,
+        pinnedTokens,
+        pinnedItems: pinnedItems.length
+      }
+    };
+  }
+}
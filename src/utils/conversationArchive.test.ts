@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { ChatMessage } from '../types';
+import { ConversationArchive, UnsupportedArchiveError } from './conversationArchive';
+
+const archiveJSON = (messages: unknown[], extra: Record<string, unknown> = {}): string => JSON.stringify({
+  format: 'ai-nodecoder-conversation',
+  version: 1,
+  exportedAt: '2024-01-01T00:00:00.000Z',
+  attachmentsEmbedded: true,
+  conversation: {
+    title: 'Archive',
+    messages,
+    mode: 'none',
+    systemPrompt: '',
+    systemPromptEnabled: false,
+    generationParams: {},
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z'
+  },
+  ...extra
+});
+
+const message = (id: string, extra: Record<string, unknown> = {}) => ({
+  id, role: 'user', content: id, timestamp: '2024-01-01T00:00:00.000Z', ...extra
+});
+
+const attachmentIds = (messages: ChatMessage[] = []): string[] => {
+  return messages.flatMap(item => item.attachments || []).map(attachment => attachment.id);
+};
+
+describe('ConversationArchive.toConversation', () => {
+  it('gives imported attachments fresh ids so they never reuse a stored image', () => {
+    const image = { id: '1700000000000-0', name: 'dot.png', type: 'image/png', size: 10, content: 'data:image/png;base64,iVBORw0KGgo=' };
+    const archive = ConversationArchive.parse(archiveJSON([
+      message('m1', { attachments: [image, { ...image, name: 'other.png' }] }),
+      message('m2', { attachments: [image] })
+    ]));
+
+    const first = attachmentIds(ConversationArchive.toConversation(archive).messages);
+    const second = attachmentIds(ConversationArchive.toConversation(archive).messages);
+
+    expect(first).not.toContain(image.id);
+    expect(new Set([...first, ...second]).size).toBe(6);
+  });
+});
+
+describe('ConversationArchive.parse', () => {
+  it.each([0, -1, 1.5, '1', null])('rejects version %s as unsupported', (version) => {
+    expect(() => ConversationArchive.parse(archiveJSON([], { version }))).toThrow(UnsupportedArchiveError);
+  });
+
+  it('rejects archives from a newer app as unsupported', () => {
+    expect(() => ConversationArchive.parse(archiveJSON([], { version: 99 }))).toThrow(UnsupportedArchiveError);
+  });
+
+  it('migrates version 1 archives to a linear chain ending at the last message', () => {
+    const { version, conversation } = ConversationArchive.parse(archiveJSON([
+      message('m1', { attachments: [{ id: 'a', name: 'notes.txt', type: 'text/plain', size: 1 }] }),
+      message('m2', { role: 'ai' }),
+      message('m3')
+    ]));
+
+    expect(version).toBe(2);
+    expect(conversation.messages.map(item => item.parentId)).toEqual([null, 'm1', 'm2']);
+    expect(conversation.activeLeafId).toBe('m3');
+    expect(conversation.titleEdited).toBe(false);
+    expect(conversation.messages.map(item => item.pinned)).toEqual([false, false, false]);
+    expect(conversation.messages[0].attachments![0].pinned).toBe(false);
+    expect(conversation.messages.map(item => item.mode)).toEqual(['none', undefined, 'none']);
+  });
+
+  it('keeps branches that a version 1 archive already recorded', () => {
+    const { conversation } = ConversationArchive.parse(archiveJSON([
+      message('m1', { parentId: null }),
+      message('m2', { role: 'ai', parentId: 'm1' }),
+      message('m2b', { role: 'ai', parentId: 'm1', pinned: true })
+    ]));
+
+    expect(conversation.messages.map(item => item.parentId)).toEqual([null, 'm1', 'm1']);
+    expect(conversation.messages[2].pinned).toBe(true);
+  });
+
+  it('migrates bare message arrays through every version', () => {
+    const { version, conversation } = ConversationArchive.parse(JSON.stringify([message('m1'), message('m2', { role: 'ai' })]));
+    expect(version).toBe(2);
+    expect(conversation.messages.map(item => item.parentId)).toEqual([null, 'm1']);
+    expect(conversation.activeLeafId).toBe('m2');
+  });
+
+  it('rejects files that are not archives', () => {
+    expect(() => ConversationArchive.parse('{"format":"something-else","version":1}')).toThrow('not an 11ku7 conversation archive');
+    expect(() => ConversationArchive.parse('not json')).toThrow('not valid JSON');
+  });
+});
@@ -0,0 +1,352 @@
+import {
+  ArchivedConversation,
+  ChatMessage,
+  ChatMessageError,
+  CodeBlock,
+  Conversation,
+  ConversationArchiveFile,
+  DocumentPage,
+  FileAttachment,
+  GenerationParams,
+  OperationMode
+} from '../types';
+import { AttachmentStore } from './attachmentStore';
+
+const ARCHIVE_FORMAT = 'ai-nodecoder-conversation';
+const CURRENT_VERSION = 2;
+
+const ROLES: ChatMessage['role'][] = ['user', 'ai', 'system'];
+const MODES: OperationMode[] = ['none', 'code', 'webapp'];
+const ERROR_CATEGORIES: ChatMessageError['category'][] = [
+  'auth', 'rate-limit', 'quota', 'model-not-found', 'content-blocked', 'network', 'server', 'unknown'
+];
+const NUMERIC_PARAMS: (keyof GenerationParams)[] = [
+  'temperature', 'topP', 'topK', 'maxOutputTokens', 'seed', 'presencePenalty', 'frequencyPenalty'
+];
+
+type Reader<T> = (value: unknown, path: string) => T;
+
+// The file is an archive, but of a version this app can't read
+export class UnsupportedArchiveError extends Error {
+  version: unknown;
+
+  constructor(version: unknown, message = `The archive version ${JSON.stringify(version)} is not supported`) {
+    super(message);
+    this.name = 'UnsupportedArchiveError';
+    this.version = version;
+  }
+}
+
+const fail = (path: string, expected: string): never => {
+  throw new Error(`Invalid conversation archive: ${path} must be ${expected}`);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const readObject: Reader<Record<string, unknown>> = (value, path) => isObject(value) ? value : fail(path, 'an object');
+const readString: Reader<string> = (value, path) => typeof value === 'string' ? value : fail(path, 'a string');
+const readBoolean: Reader<boolean> = (value, path) => typeof value === 'boolean' ? value : fail(path, 'true or false');
+const readNumber: Reader<number> = (value, path) => {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fail(path, 'a number');
+};
+
+// Dates are written as ISO strings
+const readDate: Reader<Date> = (value, path) => {
+  const date = typeof value === 'string' ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date : fail(path, 'an ISO date');
+};
+
+const readOneOf = <T extends string>(allowed: T[]): Reader<T> => (value, path) => {
+  return allowed.includes(value as T) ? value as T : fail(path, `one of ${allowed.join(', ')}`);
+};
+
+const readArray = <T>(readItem: Reader<T>): Reader<T[]> => (value, path) => {
+  if (!Array.isArray(value)) return fail(path, 'an array');
+  return value.map((item, index) => readItem(item, `${path}[${index}]`));
+};
+
+const readOptional = <T>(value: unknown, path: string, read: Reader<T>): T | undefined => {
+  return value === undefined || value === null ? undefined : read(value, path);
+};
+
+const readCodeBlock: Reader<CodeBlock> = (value, path) => {
+  const block = readObject(value, path);
+  return {
+    language: readString(block.language, `${path}.language`),
+    code: readString(block.code, `${path}.code`),
+    title: readOptional(block.title, `${path}.title`, readString)
+  };
+};
+
+const readDocumentPage: Reader<DocumentPage> = (value, path) => {
+  const page = readObject(value, path);
+  return {
+    pageNumber: readNumber(page.pageNumber, `${path}.pageNumber`),
+    imageBase64: readOptional(page.imageBase64, `${path}.imageBase64`, readString) || '',
+    textContent: readOptional(page.textContent, `${path}.textContent`, readString)
+  };
+};
+
+const readAttachment: Reader<FileAttachment> = (value, path) => {
+  const attachment = readObject(value, path);
+  return {
+    id: readString(attachment.id, `${path}.id`),
+    name: readString(attachment.name, `${path}.name`),
+    type: readString(attachment.type, `${path}.type`),
+    size: readNumber(attachment.size, `${path}.size`),
+    content: readOptional(attachment.content, `${path}.content`, readString) || '',
+    documentPages: readOptional(attachment.documentPages, `${path}.documentPages`, readArray(readDocumentPage)),
+    pinned: readOptional(attachment.pinned, `${path}.pinned`, readBoolean)
+  };
+};
+
+const readMessageError: Reader<ChatMessageError> = (value, path) => {
+  const error = readObject(value, path);
+  return {
+    category: readOneOf(ERROR_CATEGORIES)(error.category, `${path}.category`),
+    message: readString(error.message, `${path}.message`),
+    status: readOptional(error.status, `${path}.status`, readNumber)
+  };
+};
+
+const readMessage: Reader<ChatMessage> = (value, path) => {
+  const message = readObject(value, path);
+  return {
+    id: readString(message.id, `${path}.id`),
+    role: readOneOf(ROLES)(message.role, `${path}.role`),
+    content: readString(message.content, `${path}.content`),
+    timestamp: readDate(message.timestamp, `${path}.timestamp`),
+    codeBlocks: readOptional(message.codeBlocks, `${path}.codeBlocks`, readArray(readCodeBlock)),
+    attachments: readOptional(message.attachments, `${path}.attachments`, readArray(readAttachment)),
+    stopped: readOptional(message.stopped, `${path}.stopped`, readBoolean),
+    error: readOptional(message.error, `${path}.error`, readMessageError),
+    provider: readOptional(message.provider, `${path}.provider`, readString),
+    model: readOptional(message.model, `${path}.model`, readString),
+    parentId: message.parentId === null ? null : readOptional(message.parentId, `${path}.parentId`, readString),
+    mode: readOptional(message.mode, `${path}.mode`, readOneOf(MODES)),
+    pinned: readOptional(message.pinned, `${path}.pinned`, readBoolean)
+  };
+};
+
+const readGenerationParams: Reader<GenerationParams> = (value, path) => {
+  const params = readObject(value, path);
+  const result: GenerationParams = {};
+  NUMERIC_PARAMS.forEach(key => {
+    const param = readOptional(params[key], `${path}.${key}`, readNumber);
+    if (param !== undefined) (result as Record<string, number>)[key] = param;
+  });
+  const stopSequences = readOptional(params.stopSequences, `${path}.stopSequences`, readArray(readString));
+  if (stopSequences) result.stopSequences = stopSequences;
+  return result;
+};
+
+const readModeParams: Reader<Partial<Record<OperationMode, GenerationParams>>> = (value, path) => {
+  const byMode = readObject(value, path);
+  const result: Partial<Record<OperationMode, GenerationParams>> = {};
+  Object.keys(byMode).forEach(mode => {
+    const key = readOneOf(MODES)(mode, `${path} key "${mode}"`);
+    result[key] = readGenerationParams(byMode[mode], `${path}.${mode}`);
+  });
+  return result;
+};
+
+const readConversation: Reader<ArchivedConversation> = (value, path) => {
+  const conversation = readObject(value, path);
+  return {
+    title: readString(conversation.title, `${path}.title`),
+    titleEdited: readOptional(conversation.titleEdited, `${path}.titleEdited`, readBoolean),
+    summary: readOptional(conversation.summary, `${path}.summary`, readString),
+    messages: readArray(readMessage)(conversation.messages, `${path}.messages`),
+    activeLeafId: readOptional(conversation.activeLeafId, `${path}.activeLeafId`, readString),
+    mode: readOneOf(MODES)(conversation.mode, `${path}.mode`),
+    systemPrompt: readString(conversation.systemPrompt, `${path}.systemPrompt`),
+    systemPromptEnabled: readBoolean(conversation.systemPromptEnabled, `${path}.systemPromptEnabled`),
+    generationParams: readModeParams(conversation.generationParams ?? {}, `${path}.generationParams`),
+    createdAt: readDate(conversation.createdAt, `${path}.createdAt`),
+    updatedAt: readDate(conversation.updatedAt, `${path}.updatedAt`)
+  };
+};
+
+// Each step upgrades an archive from its version to the next one
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {
+  // Version 0: a bare message array, as kept in localStorage before conversations existed
+  0: (data) => {
+    const messages = Array.isArray(data) ? data : [];
+    const timestamps = messages.map(message => isObject(message) ? message.timestamp : undefined).filter(Boolean);
+    const now = new Date().toISOString();
+    return {
+      format: ARCHIVE_FORMAT,
+      version: 1,
+      exportedAt: now,
+      attachmentsEmbedded: true,
+      conversation: {
+        title: 'Imported chat',
+        messages,
+        mode: 'none',
+        systemPrompt: '',
+        systemPromptEnabled: false,
+        generationParams: {},
+        createdAt: timestamps[0] || now,
+        updatedAt: timestamps[timestamps.length - 1] || now
+      }
+    };
+  },
+  // Version 1: no branches, pins, edited titles or per-message modes - messages form one chain, ending at the last
+  1: (data) => {
+    // Malformed archives are left as they are, for the readers to reject
+    if (!isObject(data) || !isObject(data.conversation) || !Array.isArray(data.conversation.messages)) return data;
+    const { conversation } = data;
+    const messages = conversation.messages as unknown[];
+    const lastMessage = messages[messages.length - 1];
+    return {
+      ...data,
+      version: 2,
+      conversation: {
+        ...conversation,
+        titleEdited: conversation.titleEdited ?? false,
+        activeLeafId: conversation.activeLeafId ?? (isObject(lastMessage) ? lastMessage.id : undefined),
+        messages: messages.map((message, index) => {
+          if (!isObject(message)) return message;
+          const previous = messages[index - 1];
+          return {
+            ...message,
+            parentId: message.parentId !== undefined ? message.parentId : isObject(previous) ? previous.id : null,
+            pinned: message.pinned ?? false,
+            // Replies are regenerated in the mode their question was sent in
+            mode: message.mode ?? (message.role === 'user' ? conversation.mode : undefined),
+            attachments: Array.isArray(message.attachments)
+              ? message.attachments.map(attachment => isObject(attachment) ? { ...attachment, pinned: attachment.pinned ?? false } : attachment)
+              : message.attachments
+          };
+        })
+      }
+    };
+  }
+};
+
+export class ConversationArchive {
+  /**
+   * Build an archive of a conversation - attachments that haven't been loaded from storage yet are loaded first when embedding
+   */
+  static async create(conversation: Conversation, embedAttachments: boolean): Promise<ConversationArchiveFile> {
+    let messages = conversation.messages;
+    if (embedAttachments && AttachmentStore.needsLoading(messages)) {
+      messages = AttachmentStore.apply(messages, await AttachmentStore.load(messages, false));
+    }
+
+    return {
+      format: ARCHIVE_FORMAT,
+      version: CURRENT_VERSION,
+      exportedAt: new Date(),
+      attachmentsEmbedded: embedAttachments,
+      conversation: {
+        title: conversation.title,
+        titleEdited: conversation.titleEdited,
+        summary: conversation.summary,
+        messages: messages.map(message => this.stripMessage(message, embedAttachments)),
+        activeLeafId: conversation.activeLeafId,
+        mode: conversation.mode,
+        systemPrompt: conversation.systemPrompt,
+        systemPromptEnabled: conversation.systemPromptEnabled,
+        generationParams: conversation.generationParams,
+        createdAt: conversation.createdAt,
+        updatedAt: conversation.updatedAt
+      }
+    };
+  }
+
+  /**
+   * Drop what only makes sense in this browser session (object URLs), and the image data unless it is embedded
+   */
+  private static stripMessage(message: ChatMessage, embedAttachments: boolean): ChatMessage {
+    if (!message.attachments) return message;
+
+    return {
+      ...message,
+      attachments: message.attachments.map(attachment => {
+        const stripped: FileAttachment = { ...attachment };
+        delete stripped.url;
+        if (!embedAttachments) {
+          if (attachment.type.startsWith('image/')) stripped.content = '';
+          stripped.documentPages = attachment.documentPages?.map(page => ({ ...page, imageBase64: '' }));
+        }
+        return stripped;
+      })
+    };
+  }
+
+  static serialize(archive: ConversationArchiveFile): string {
+    return JSON.stringify(archive, null, 2);
+  }
+
+  /**
+   * Parse and validate an archive file, migrating older versions to the current one
+   */
+  static parse(json: string): ConversationArchiveFile {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new Error('The file is not valid JSON');
+    }
+
+    let version = this.getVersion(data);
+    if (version > CURRENT_VERSION) {
+      throw new UnsupportedArchiveError(
+        version,
+        `The archive is version ${version}, but this app only reads up to version ${CURRENT_VERSION}. Update the app to import it.`
+      );
+    }
+    while (version < CURRENT_VERSION) {
+      const migrate = MIGRATIONS[version];
+      if (!migrate) throw new UnsupportedArchiveError(version);
+      data = migrate(data);
+      version++;
+    }
+
+    const archive = readObject(data, 'archive');
+    return {
+      format: ARCHIVE_FORMAT,
+      version: CURRENT_VERSION,
+      exportedAt: readDate(archive.exportedAt, 'exportedAt'),
+      attachmentsEmbedded: readBoolean(archive.attachmentsEmbedded, 'attachmentsEmbedded'),
+      conversation: readConversation(archive.conversation, 'conversation')
+    };
+  }
+
+  // Bare message arrays are version 0; archives are numbered from 1
+  private static getVersion(data: unknown): number {
+    if (Array.isArray(data)) return 0;
+    if (!isObject(data) || data.format !== ARCHIVE_FORMAT) {
+      throw new Error('The file is not an 11ku7 conversation archive');
+    }
+    if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+      throw new UnsupportedArchiveError(data.version);
+    }
+    return data.version;
+  }
+
+  /**
+   * Conversation fields for an imported archive - embedded images are displayed straight from their data URLs.
+   * Attachments get fresh ids: their images are stored under the id, and an archive from another browser
+   * (or an earlier import) can reuse one that already holds a different image here.
+   */
+  static toConversation(archive: ConversationArchiveFile): Partial<Conversation> {
+    const { conversation } = archive;
+    const importId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    let attachmentCount = 0;
+    return {
+      ...conversation,
+      messages: conversation.messages.map(message => ({
+        ...message,
+        attachments: message.attachments?.map(attachment => ({
+          ...attachment,
+          id: `imported-${importId}-${attachmentCount++}`,
+          url: attachment.type.startsWith('image/') && attachment.content ? attachment.content : undefined
+        }))
+      }))
+    };
+  }
+}
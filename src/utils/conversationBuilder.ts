@@ -0,0 +1,106 @@
+import { ChatMessage, ChatRequest, ConversationTurn, FileAttachment, ImageInput } from '../types';
+
+export class ConversationBuilder {
+  /**
+   * Convert a base64 data URL to just the base64 string
+   */
+  static extractBase64FromDataURL(dataURL: string): string {
+    const base64Index = dataURL.indexOf(',');
+    return base64Index !== -1 ? dataURL.substring(base64Index + 1) : dataURL;
+  }
+
+  /**
+   * Collect image attachments and PDF pages (sent as JPEG images) for vision models
+   */
+  static collectImages(attachments?: FileAttachment[]): ImageInput[] {
+    const images: ImageInput[] = [];
+
+    attachments?.forEach(attachment => {
+      if (attachment.type.startsWith('image/')) {
+        // Stored images still being loaded from the database have no data yet
+        if (attachment.content) images.push({ mimeType: attachment.type, data: this.extractBase64FromDataURL(attachment.content) });
+      } else if (attachment.documentPages) {
+        // Add each PDF page as an image
+        attachment.documentPages.forEach(page => {
+          if (page.imageBase64) images.push({ mimeType: 'image/jpeg', data: page.imageBase64 });
+        });
+      }
+    });
+
+    return images;
+  }
+
+  /**
+   * Inline the text of document attachments - images and PDF pages are sent separately
+   */
+  static describeAttachments(attachments?: FileAttachment[]): string {
+    if (!attachments || attachments.length === 0) return '';
+
+    let attachmentContext = '\n\nAttached files:\n';
+    attachments.forEach((attachment, index) => {
+      if (!attachment.type.startsWith('image/') && !attachment.documentPages) {
+        attachmentContext += `\n${index + 1}. ${attachment.name} (${attachment.type}, ${Math.round(attachment.size / 1024)}KB):\n`;
+        attachmentContext += `${attachment.content}\n`;
+      } else if (attachment.documentPages) {
+        // For PDFs, include text content from all pages
+        attachmentContext += `\n${index + 1}. ${attachment.name} (PDF with ${attachment.documentPages.length} pages):\n`;
+        attachmentContext += `${attachment.content}\n`;
+      } else {
+        attachmentContext += `\n${index + 1}. ${attachment.name} (${attachment.type}, image)\n`;
+      }
+    });
+    return attachmentContext;
+  }
+
+  /**
+   * Whether a message is part of the conversation with the model (commands, their replies and failed requests are not)
+   */
+  static isConversationMessage(message: ChatMessage): boolean {
+    if (message.role === 'system' || message.error) return false;
+    if (message.role === 'user' && message.content.startsWith('/')) return false;
+    return true;
+  }
+
+  /**
+   * Convert a single chat message into a provider-neutral turn
+   */
+  static toTurn(message: ChatMessage, includeImages = true): ConversationTurn {
+    if (message.role === 'user') {
+      return {
+        role: 'user',
+        text: `${message.content}${this.describeAttachments(message.attachments)}`,
+        images: includeImages ? this.collectImages(message.attachments) : []
+      };
+    }
+    return { role: 'assistant', text: message.content, images: [] };
+  }
+
+  /**
+   * Build a role-structured request from chat history, ending with the message being answered.
+   * Text-only models get the attachment text without any images.
+   */
+  static buildRequest(messages: ChatMessage[], system?: string, includeImages = true): ChatRequest {
+    const turns: ConversationTurn[] = [];
+
+    messages
+      .filter(message => this.isConversationMessage(message))
+      .map(message => this.toTurn(message, includeImages))
+      .forEach(turn => {
+        const previous = turns[turns.length - 1];
+        // Providers require alternating roles - merge back-to-back turns (e.g. a resend after a failed reply)
+        if (previous && previous.role === turn.role) {
+          previous.text = `${previous.text}\n\n${turn.text}`;
+          previous.images = [...previous.images, ...turn.images];
+        } else {
+          turns.push({ ...turn });
+        }
+      });
+
+    // The conversation has to open with a user turn
+    while (turns.length > 0 && turns[0].role !== 'user') {
+      turns.shift();
+    }
+
+    return { system: system || undefined, turns };
+  }
+}
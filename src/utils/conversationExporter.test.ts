@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { Conversation, FileAttachment } from '../types';
+import { ConversationExporter } from './conversationExporter';
+
+const conversationWith = (attachment: FileAttachment, content = 'See attached'): Conversation => {
+  const timestamp = new Date('2024-01-01T00:00:00Z');
+  return {
+    id: 'conversation-1',
+    title: 'Export',
+    messages: [{ id: 'message-1', role: 'user', content, timestamp, attachments: [attachment] }],
+    mode: 'none',
+    systemPrompt: '',
+    systemPromptEnabled: false,
+    profileId: null,
+    generationParams: {},
+    createdAt: timestamp,
+    updatedAt: timestamp
+  };
+};
+
+const exportHTML = async (conversation: Conversation): Promise<Document> => {
+  return new DOMParser().parseFromString(await ConversationExporter.toHTML(conversation), 'text/html');
+};
+
+describe('ConversationExporter.toHTML', () => {
+  it('inlines embedded attachment images', async () => {
+    const page = await exportHTML(conversationWith({
+      id: 'a', name: 'dot.png', type: 'image/png', size: 10, content: 'data:image/png;base64,iVBORw0KGgo='
+    }));
+    const images = page.querySelectorAll('img');
+    expect(images).toHaveLength(2);
+    images.forEach(image => expect(image.getAttribute('src')).toBe('data:image/png;base64,iVBORw0KGgo='));
+  });
+
+  it('does not let attachment content break out of the src attribute', async () => {
+    const page = await exportHTML(conversationWith({
+      id: 'a', name: 'x.png', type: 'image/png', size: 10, content: 'data:image/png;base64,AA"><script>alert(1)</script><img src="x'
+    }));
+    expect(page.querySelector('script')).toBeNull();
+    expect(Array.from(page.querySelectorAll('img')).every(image => image.getAttribute('src')!.startsWith('data:image/png'))).toBe(true);
+  });
+
+  it('leaves out attachment images that are not embedded data', async () => {
+    const page = await exportHTML(conversationWith({
+      id: 'a', name: 'x.png', type: 'image/png', size: 10, content: 'https://evil.example/x.png'
+    }));
+    expect(page.querySelector('img')).toBeNull();
+  });
+
+  it('escapes stored PDF page data', async () => {
+    const page = await exportHTML(conversationWith({
+      id: 'a', name: 'doc.pdf', type: 'application/pdf', size: 10, content: 'text',
+      documentPages: [{ pageNumber: 1, imageBase64: 'AA" onerror="alert(1)' }]
+    }));
+    const image = page.querySelector('.pages img')!;
+    expect(image.hasAttribute('onerror')).toBe(false);
+  });
+
+  it('does not reference remote images from message text', async () => {
+    const page = await exportHTML(conversationWith(
+      { id: 'a', name: 'notes.txt', type: 'text/plain', size: 10, content: 'notes' },
+      '![tracker](https://evil.example/pixel.gif)'
+    ));
+    expect(page.querySelector('img')).toBeNull();
+    expect(page.querySelector('a[href="https://evil.example/pixel.gif"]')).not.toBeNull();
+  });
+});
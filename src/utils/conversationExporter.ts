@@ -0,0 +1,369 @@
+import { Marked } from 'marked';
+import highlightTheme from '../styles/highlight-terminal.css?inline';
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import { ChatMessage, Conversation, FileAttachment } from '../types';
+import { AttachmentStore } from './attachmentStore';
+import { ConversationTree } from './conversationTree';
+import { SyntaxHighlighter } from './syntaxHighlighter';
+import { HtmlSanitizer } from './htmlSanitizer';
+import { CodeFences } from './codeFences';
+
+export type ExportFormat = 'md' | 'json' | 'html' | 'pdf';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['md', 'json', 'html', 'pdf'];
+
+// A4 in PDF points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const PAGE_MARGIN = 50;
+const FONT_SIZE = 10;
+const LINE_HEIGHT = 14;
+
+const ROLE_LABELS: Record<ChatMessage['role'], string> = {
+  user: 'User',
+  ai: 'Ai',
+  system: 'System'
+};
+
+const escapeHTML = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+// Only embedded images go into the page: anything else would be fetched from elsewhere, and the value ends up
+// in an attribute, so it is escaped even then
+const imageSource = (dataURL: string): string | null => {
+  return /^data:image\/[\w.+-]+[;,]/i.test(dataURL) ? escapeHTML(dataURL) : null;
+};
+
+const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+};
+
+// Own instance, so the export's code renderer doesn't change how the chat renders
+const markdown = new Marked({
+  renderer: {
+    code(code: string, infostring: string | undefined) {
+      const info = CodeFences.parseInfo((infostring || '').trim());
+      const { html, language } = SyntaxHighlighter.highlight(code, info.language);
+      const label = info.title ? `${info.title} · ${language || 'text'}` : language || 'text';
+      return `<div class="code-block"><div class="code-header">${escapeHTML(label)}</div><pre><code class="hljs">${html}</code></pre></div>`;
+    }
+  }
+});
+
+// Mirrors the ChatArea look; everything is inline so the page needs no network
+const HTML_STYLES = `
+* { box-sizing: border-box; }
+body { background: linear-gradient(135deg, #000, #111827, #000); color: #f3f4f6; font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 14px; line-height: 1.6; max-width: 56rem; margin: 0 auto; padding: 1.5rem 1rem; min-height: 100vh; }
+header { border: 1px solid rgba(34, 197, 94, 0.2); background: rgba(0, 0, 0, 0.4); border-radius: 0.5rem; padding: 1rem; margin-bottom: 1.5rem; }
+h1 { color: #4ade80; font-size: 1.25rem; margin: 0 0 0.25rem; }
+header .meta { color: #6b7280; font-size: 0.75rem; }
+header .summary { color: #d1d5db; margin: 0 0 0.25rem; }
+.message { margin-bottom: 1.5rem; display: flex; flex-direction: column; }
+.message.user { align-items: flex-end; }
+.message.user .bubble { max-width: 80%; background: #2563eb; color: #fff; border-radius: 1rem 1rem 0.375rem 1rem; }
+.message.ai .bubble, .message.system .bubble { max-width: 85%; border-radius: 0.375rem 1rem 1rem 1rem; }
+.message.ai .bubble { background: rgba(31, 41, 55, 0.8); border: 1px solid #374151; }
+.message.system .bubble { background: rgba(234, 179, 8, 0.1); border: 1px solid rgba(234, 179, 8, 0.2); color: #fef9c3; }
+.bubble { padding: 0.75rem 1rem; overflow-wrap: anywhere; }
+.author { display: flex; align-items: center; gap: 0.5rem; margin-bottom: 0.5rem; font-size: 0.875rem; }
+.author .avatar { width: 2rem; height: 2rem; border-radius: 9999px; display: flex; align-items: center; justify-content: center; background: rgba(34, 197, 94, 0.2); color: #4ade80; }
+.message.ai .author strong { color: #4ade80; }
+.message.system .author strong { color: #facc15; }
+.message.system .avatar { background: rgba(234, 179, 8, 0.2); color: #facc15; }
+.time { color: #6b7280; font-size: 0.75rem; }
+.message.user .time { color: #bfdbfe; opacity: 0.7; text-align: right; margin-top: 0.5rem; }
+.badge { color: #f87171; background: rgba(239, 68, 68, 0.1); border: 1px solid rgba(239, 68, 68, 0.2); border-radius: 0.25rem; padding: 0 0.375rem; font-size: 0.75rem; }
+.content > :first-child { margin-top: 0; }
+.content > :last-child { margin-bottom: 0; }
+.content a { color: #4ade80; }
+.content :not(pre) > code { background: rgba(0, 0, 0, 0.3); padding: 0.1rem 0.3rem; border-radius: 0.25rem; }
+.content table { border-collapse: collapse; }
+.content th, .content td { border: 1px solid #4b5563; padding: 0.25rem 0.5rem; }
+.code-block { background: rgba(0, 0, 0, 0.4); border: 1px solid #4b5563; border-radius: 0.5rem; overflow: hidden; margin: 0.75rem 0; }
+.code-header { background: rgba(17, 24, 39, 0.8); border-bottom: 1px solid #4b5563; color: #9ca3af; font-size: 0.75rem; padding: 0.5rem 0.75rem; }
+.code-block pre { margin: 0; }
+.code-block code.hljs { display: block; padding: 0.75rem; overflow-x: auto; background: transparent; font-size: 0.875rem; }
+.attachment { display: flex; align-items: center; gap: 0.5rem; background: rgba(29, 78, 216, 0.5); border: 1px solid rgba(59, 130, 246, 0.3); border-radius: 0.25rem; padding: 0.5rem; margin-bottom: 0.5rem; font-size: 0.75rem; }
+.message:not(.user) .attachment { background: rgba(17, 24, 39, 0.6); border-color: #374151; }
+.attachment .thumb { width: 2rem; height: 2rem; object-fit: cover; border-radius: 0.25rem; }
+.attachment .icon { display: flex; align-items: center; justify-content: center; background: rgba(0, 0, 0, 0.3); }
+.attachment .size { opacity: 0.7; }
+img.image { display: block; max-width: 100%; max-height: 24rem; border-radius: 0.5rem; margin-bottom: 0.75rem; }
+details.pages { margin-bottom: 0.75rem; font-size: 0.75rem; }
+details summary { cursor: pointer; }
+.page-grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(10rem, 1fr)); gap: 0.5rem; margin-top: 0.5rem; }
+figure { margin: 0; background: rgba(30, 64, 175, 0.5); border: 1px solid rgba(59, 130, 246, 0.3); border-radius: 0.25rem; padding: 0.5rem; }
+figure img { width: 100%; border-radius: 0.25rem; }
+figure pre { white-space: pre-wrap; max-height: 12rem; overflow-y: auto; margin: 0.25rem 0 0; }
+figcaption { opacity: 0.8; margin-top: 0.25rem; }
+.missing { opacity: 0.7; padding: 1rem 0; text-align: center; }
+.error { color: #fca5a5; background: rgba(239, 68, 68, 0.1); border: 1px solid rgba(239, 68, 68, 0.2); border-radius: 0.5rem; padding: 0.5rem 0.75rem; margin-top: 0.75rem; }
+`;
+
+// The standard PDF fonts only cover Latin-1, so anything else (emoji, CJK) is replaced
+const toWinAnsi = (text: string): string => {
+  return text.replace(/\t/g, '  ').replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+};
+
+// Greedy word wrap; words longer than a line are broken up
+const wrapLine = (text: string, font: PDFFont, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+
+  text.split(/(\s+)/).forEach(word => {
+    const candidate = current + word;
+    if (font.widthOfTextAtSize(candidate, FONT_SIZE) <= maxWidth) {
+      current = candidate;
+      return;
+    }
+    if (current.trim()) lines.push(current.trimEnd());
+    current = word.trimStart();
+    while (font.widthOfTextAtSize(current, FONT_SIZE) > maxWidth) {
+      let cut = current.length - 1;
+      while (cut > 1 && font.widthOfTextAtSize(current.substring(0, cut), FONT_SIZE) > maxWidth) cut--;
+      lines.push(current.substring(0, cut));
+      current = current.substring(cut);
+    }
+  });
+
+  lines.push(current.trimEnd());
+  return lines;
+};
+
+export class ConversationExporter {
+  /**
+   * Whether a command argument names an export format
+   */
+  static isFormat(value: string): value is ExportFormat {
+    return (EXPORT_FORMATS as string[]).includes(value);
+  }
+
+  /**
+   * Download filename - named after the conversation unless one is given; a name without the format's extension gets it appended
+   */
+  static getFilename(format: ExportFormat, filename?: string, title?: string): string {
+    const slug = title?.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').substring(0, 60);
+    const name = filename?.trim().replace(/[\\/:*?"<>|]/g, '-')
+      || slug
+      || `chat-conversation-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+    return name.toLowerCase().endsWith(`.${format}`) ? name : `${name}.${format}`;
+  }
+
+  /**
+   * Readable transcript - attachments are listed by name, the ## role headings are what /loadcon reads back
+   */
+  static toMarkdown(conversation: Conversation): string {
+    const body = this.getMessages(conversation).map(msg => {
+      let content = `## ${ROLE_LABELS[msg.role]}\n${msg.content}`;
+
+      // Add attachment info to saved conversation
+      if (msg.attachments && msg.attachments.length > 0) {
+        content += '\n\n**Attachments:**\n';
+        msg.attachments.forEach((att, index) => {
+          content += `${index + 1}. ${att.name} (${att.type}, ${Math.round(att.size / 1024)}KB)`;
+          if (att.documentPages) {
+            content += ` - PDF with ${att.documentPages.length} pages converted to images`;
+          }
+          content += '\n';
+        });
+      }
+
+      if (msg.error) {
+        content += `\n\n**Error (${msg.error.category}):** ${msg.error.message}`;
+      }
+
+      return content + '\n';
+    }).join('\n');
+
+    const summary = conversation.summary ? `> ${conversation.summary}\n\n` : '';
+    return `# ${conversation.title}\n\n${summary}${body}`;
+  }
+
+  /**
+   * Read a markdown transcript back into messages - only a heading alone on its line starts a new message
+   */
+  static parseMarkdown(content: string): { role: ChatMessage['role']; content: string }[] {
+    const sections = content.split(/^## (User|Ai|System)[ \t]*$/im);
+    const messages: { role: ChatMessage['role']; content: string }[] = [];
+
+    for (let i = 1; i < sections.length; i += 2) {
+      const messageContent = sections[i + 1]?.trim();
+      if (messageContent) {
+        messages.push({ role: sections[i].toLowerCase() as ChatMessage['role'], content: messageContent });
+      }
+    }
+
+    return messages;
+  }
+
+  /**
+   * Standalone HTML page styled like the chat - code is highlighted and attachment images are inlined, so it works offline.
+   * Remote images in message text become links when the markdown is sanitized, so nothing is fetched from elsewhere
+   */
+  static async toHTML(conversation: Conversation): Promise<string> {
+    const messages = await this.withAttachments(this.getMessages(conversation));
+    const body = messages.map(message => this.renderMessageHTML(message)).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHTML(conversation.title)}</title>
+<style>
+${HTML_STYLES}
+${highlightTheme}
+</style>
+</head>
+<body>
+<header>
+<h1>${escapeHTML(conversation.title)}</h1>
+${conversation.summary ? `<p class="summary">${escapeHTML(conversation.summary)}</p>\n` : ''}<div class="meta">${messages.length} messages · exported ${new Date().toLocaleString()}</div>
+</header>
+${body}
+</body>
+</html>`;
+  }
+
+  private static renderMessageHTML(message: ChatMessage): string {
+    const time = message.timestamp.toLocaleString();
+    const attachments = (message.attachments || []).map(attachment => {
+      const src = attachment.type.startsWith('image/') ? imageSource(attachment.content) : null;
+      const preview = src
+        ? `<img class="thumb" src="${src}" alt="${escapeHTML(attachment.name)}">`
+        : '<div class="thumb icon">📎</div>';
+      const description = attachment.documentPages
+        ? `PDF (${attachment.documentPages.length} pages as images)`
+        : attachment.type.startsWith('image/') ? 'Image' : 'Document';
+      const chip = `<div class="attachment">${preview}<div><div class="name">${escapeHTML(attachment.name)}</div><div class="size">${formatFileSize(attachment.size)} · ${description}</div></div></div>`;
+      const image = src ? `<img class="image" src="${src}" alt="${escapeHTML(attachment.name)}">` : '';
+      return chip + image + this.renderPagesHTML(attachment);
+    }).join('');
+    const content = message.content ? `<div class="content">${HtmlSanitizer.sanitize(markdown.parse(message.content, { async: false }) as string)}</div>` : '';
+    const error = message.error
+      ? `<div class="error"><strong>${escapeHTML(message.error.category)}</strong>${message.error.status ? ` (${message.error.status})` : ''}: ${escapeHTML(message.error.message)}</div>`
+      : '';
+
+    if (message.role === 'user') {
+      return `<div class="message user">
+<div class="bubble">${attachments}${content}<div class="time">${time}</div></div>
+</div>`;
+    }
+
+    const author = message.role === 'system' ? 'System' : 'AI Assistant';
+    const model = message.model ? ` · <span title="${escapeHTML(message.provider || '')}">${escapeHTML(message.model)}</span>` : '';
+    const stopped = message.stopped ? ' <span class="badge">stopped</span>' : '';
+    return `<div class="message ${message.role}">
+<div class="author"><span class="avatar">●</span><strong>${author}</strong><span class="time">${time}${model}</span>${stopped}</div>
+<div class="bubble">${attachments}${content}${error}</div>
+</div>`;
+  }
+
+  // PDF pages fold away behind <details>, so long documents don't bury the conversation
+  private static renderPagesHTML(attachment: FileAttachment): string {
+    if (!attachment.documentPages?.length) return '';
+
+    const pages = attachment.documentPages.map(page => {
+      const src = page.imageBase64 ? imageSource(`data:image/jpeg;base64,${page.imageBase64}`) : null;
+      const image = src
+        ? `<img src="${src}" alt="Page ${page.pageNumber}">`
+        : '<div class="missing">Page image not stored</div>';
+      const text = page.textContent
+        ? `<details><summary>Extracted text</summary><pre>${escapeHTML(page.textContent)}</pre></details>`
+        : '';
+      return `<figure>${image}<figcaption>Page ${page.pageNumber}</figcaption>${text}</figure>`;
+    }).join('');
+
+    return `<details class="pages"><summary>${escapeHTML(attachment.name)} - ${attachment.documentPages.length} pages</summary><div class="page-grid">${pages}</div></details>`;
+  }
+
+  /**
+   * PDF transcript with the message text and embedded PNG/JPEG images
+   */
+  static async toPDF(conversation: Conversation): Promise<Uint8Array> {
+    const messages = await this.withAttachments(this.getMessages(conversation));
+    const pdf = await PDFDocument.create();
+    pdf.setTitle(conversation.title);
+    const fonts = {
+      text: await pdf.embedFont(StandardFonts.Helvetica),
+      bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+      code: await pdf.embedFont(StandardFonts.Courier)
+    };
+    const maxWidth = PAGE_WIDTH - PAGE_MARGIN * 2;
+
+    let page: PDFPage = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    let y = PAGE_HEIGHT - PAGE_MARGIN;
+
+    // Starts a new page when the next block doesn't fit
+    const ensureSpace = (height: number) => {
+      if (y - height < PAGE_MARGIN) {
+        page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+        y = PAGE_HEIGHT - PAGE_MARGIN;
+      }
+    };
+
+    const drawLine = (text: string, font: PDFFont, color = rgb(0.1, 0.1, 0.1)) => {
+      ensureSpace(LINE_HEIGHT);
+      y -= LINE_HEIGHT;
+      page.drawText(text, { x: PAGE_MARGIN, y, size: FONT_SIZE, font, color });
+    };
+
+    wrapLine(toWinAnsi(conversation.title), fonts.bold, maxWidth).forEach(line => drawLine(line, fonts.bold));
+    y -= LINE_HEIGHT;
+
+    for (const message of messages) {
+      const author = message.model ? `${ROLE_LABELS[message.role]} (${message.model})` : ROLE_LABELS[message.role];
+      drawLine(toWinAnsi(`${author} - ${message.timestamp.toLocaleString()}`), fonts.bold, rgb(0.1, 0.5, 0.2));
+
+      let inCode = false;
+      for (const rawLine of message.content.split('\n')) {
+        if (/^\s*(```|~~~)/.test(rawLine)) {
+          inCode = !inCode;
+          continue;
+        }
+        const font = inCode ? fonts.code : fonts.text;
+        wrapLine(toWinAnsi(rawLine), font, maxWidth).forEach(line => drawLine(line, font));
+      }
+
+      for (const attachment of message.attachments || []) {
+        const isPng = attachment.type === 'image/png';
+        const isJpeg = attachment.type === 'image/jpeg' || attachment.type === 'image/jpg';
+        if ((isPng || isJpeg) && attachment.content) {
+          const image = isPng ? await pdf.embedPng(attachment.content) : await pdf.embedJpg(attachment.content);
+          const scaled = image.scaleToFit(maxWidth, PAGE_HEIGHT / 3);
+          ensureSpace(scaled.height + LINE_HEIGHT);
+          y -= scaled.height + 4;
+          page.drawImage(image, { x: PAGE_MARGIN, y, width: scaled.width, height: scaled.height });
+        } else {
+          drawLine(toWinAnsi(`[Attachment: ${attachment.name}]`), fonts.text, rgb(0.4, 0.4, 0.4));
+        }
+      }
+
+      if (message.error) {
+        wrapLine(toWinAnsi(`Error: ${message.error.message}`), fonts.text, maxWidth).forEach(line => drawLine(line, fonts.text, rgb(0.8, 0.1, 0.1)));
+      }
+
+      y -= LINE_HEIGHT;
+    }
+
+    return pdf.save();
+  }
+
+  // Transcripts show the branch that is currently selected
+  private static getMessages(conversation: Conversation): ChatMessage[] {
+    return ConversationTree.getActivePath(conversation.messages, conversation.activeLeafId);
+  }
+
+  // Attachments of a conversation that was never opened still have to be loaded from storage
+  private static async withAttachments(messages: ChatMessage[]): Promise<ChatMessage[]> {
+    if (!AttachmentStore.needsLoading(messages)) return messages;
+    return AttachmentStore.apply(messages, await AttachmentStore.load(messages, false));
+  }
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { ConversationSearch } from './conversationSearch';
+
+const parse = (html: string): HTMLElement => {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+  return container;
+};
+
+describe('ConversationSearch.highlightHTML', () => {
+  it('marks matches in text, case-insensitively', () => {
+    const container = parse(ConversationSearch.highlightHTML('<p>Foo bar FOO</p>', 'foo'));
+    const marks = container.querySelectorAll('mark');
+    expect(marks).toHaveLength(2);
+    expect(marks[0].textContent).toBe('Foo');
+    expect(marks[1].textContent).toBe('FOO');
+    expect(container.textContent).toBe('Foo bar FOO');
+  });
+
+  it.each(['amp', 'lt', 'gt', 'quot'])('leaves entities intact when searching "%s"', (query) => {
+    const html = '<p>a &amp; b &lt; c &gt; d "e"</p>';
+    const container = parse(ConversationSearch.highlightHTML(html, query));
+    expect(container.textContent).toBe('a & b < c > d "e"');
+    expect(container.querySelector('mark')).toBeNull();
+  });
+
+  it('matches text that contains escaped characters', () => {
+    const container = parse(ConversationSearch.highlightHTML('<p>if (a &lt; b &amp;&amp; c)</p>', 'a < b &&'));
+    expect(container.querySelector('mark')?.textContent).toBe('a < b &&');
+  });
+
+  it('never writes into attribute values', () => {
+    const html = '<p><a href="https://example.com" title="x>query&quot; onmouseover=&quot;alert(1)">query</a></p>';
+    const container = parse(ConversationSearch.highlightHTML(html, 'query'));
+    const link = container.querySelector('a')!;
+    expect(link.getAttribute('title')).toBe('x>query" onmouseover="alert(1)');
+    expect(link.hasAttribute('onmouseover')).toBe(false);
+    expect(container.querySelectorAll('mark')).toHaveLength(1);
+    expect(link.querySelector('mark')?.textContent).toBe('query');
+  });
+
+  it('marks matches inside highlighted code spans without breaking them', () => {
+    const html = '<span class="hljs-keyword">const</span> value = <span class="hljs-string">"const"</span>;';
+    const container = parse(ConversationSearch.highlightHTML(html, 'const'));
+    expect(container.querySelectorAll('mark')).toHaveLength(2);
+    expect(container.querySelectorAll('.hljs-keyword, .hljs-string')).toHaveLength(2);
+  });
+
+  it('returns the HTML unchanged for an empty query', () => {
+    expect(ConversationSearch.highlightHTML('<p>a &amp; b</p>', '  ')).toBe('<p>a &amp; b</p>');
+  });
+});
@@ -0,0 +1,202 @@
+import { ChatMessage, Conversation, OperationMode } from '../types';
+import { ConversationTree } from './conversationTree';
+import { CodeFences } from './codeFences';
+
+export interface SearchFilters {
+  role?: ChatMessage['role'];
+  mode?: OperationMode;
+  model?: string;
+  from?: Date; // Start of the first day to include
+  to?: Date; // End of the last day to include
+}
+
+export interface SearchResult {
+  conversation: Conversation;
+  message: ChatMessage;
+  source: 'message' | 'code' | 'attachment';
+  sourceLabel?: string; // Code block language or attachment name
+  snippet: { before: string; match: string; after: string };
+  matchCount: number; // Matches across all parts of the message
+}
+
+interface SearchablePart {
+  source: SearchResult['source'];
+  label?: string;
+  text: string;
+}
+
+// Characters of context shown around a match
+const SNIPPET_CONTEXT = 60;
+const MAX_RESULTS = 200;
+
+export const MARK_CLASSNAME = 'bg-yellow-400/30 text-inherit rounded px-0.5';
+
+const countMatches = (text: string, query: string): number => {
+  let count = 0;
+  let index = text.indexOf(query);
+  while (index !== -1) {
+    count++;
+    index = text.indexOf(query, index + query.length);
+  }
+  return count;
+};
+
+const makeSnippet = (text: string, index: number, length: number): SearchResult['snippet'] => {
+  const start = Math.max(0, index - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, index + length + SNIPPET_CONTEXT);
+  return {
+    before: (start > 0 ? '…' : '') + text.substring(start, index).replace(/\s+/g, ' '),
+    match: text.substring(index, index + length),
+    after: text.substring(index + length, end).replace(/\s+/g, ' ') + (end < text.length ? '…' : '')
+  };
+};
+
+export class ConversationSearch {
+  /**
+   * The parts of a message that are searched: its prose, its code blocks and the text of its attachments
+   */
+  static getSearchableText(message: ChatMessage): SearchablePart[] {
+    // Fenced code blocks are searched separately from the prose around them
+    const segments = CodeFences.split(message.content);
+    const parts: SearchablePart[] = [
+      { source: 'message', text: segments.map(segment => segment.type === 'markdown' ? segment.text : ' ').join('\n') }
+    ];
+
+    segments.forEach(segment => {
+      if (segment.type === 'code') {
+        parts.push({ source: 'code', label: segment.block.title || segment.block.language || undefined, text: segment.block.code });
+      }
+    });
+
+    message.attachments?.forEach(attachment => {
+      if (!attachment.type.startsWith('image/') && attachment.content) {
+        parts.push({ source: 'attachment', label: attachment.name, text: attachment.content });
+      }
+      attachment.documentPages?.forEach(page => {
+        if (page.textContent) {
+          parts.push({ source: 'attachment', label: `${attachment.name}, page ${page.pageNumber}`, text: page.textContent });
+        }
+      });
+    });
+
+    return parts;
+  }
+
+  /**
+   * Mode a message belongs to - replies take the mode of the prompt they answer
+   */
+  private static getMessageModes(conversation: Conversation): Map<string, OperationMode> {
+    const parentIds = ConversationTree.getParentIds(conversation.messages);
+    const modes = new Map<string, OperationMode>();
+    // Parents always come first, so a reply can look up its prompt's mode
+    conversation.messages.forEach(message => {
+      const parentId = parentIds.get(message.id);
+      const inherited = parentId ? modes.get(parentId) : undefined;
+      modes.set(message.id, message.mode || (message.role === 'user' ? undefined : inherited) || conversation.mode);
+    });
+    return modes;
+  }
+
+  /**
+   * Case-insensitive search over every branch of every conversation, newest messages first
+   */
+  static search(conversations: Conversation[], query: string, filters: SearchFilters = {}): SearchResult[] {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return [];
+
+    const results: SearchResult[] = [];
+
+    conversations.forEach(conversation => {
+      const modes = this.getMessageModes(conversation);
+
+      conversation.messages.forEach(message => {
+        if (filters.role && message.role !== filters.role) return;
+        if (filters.mode && modes.get(message.id) !== filters.mode) return;
+        if (filters.model && message.model !== filters.model) return;
+        if (filters.from && message.timestamp < filters.from) return;
+        if (filters.to && message.timestamp > filters.to) return;
+
+        let result: SearchResult | null = null;
+
+        for (const part of this.getSearchableText(message)) {
+          const lower = part.text.toLowerCase();
+          const count = countMatches(lower, needle);
+          if (count === 0) continue;
+
+          // The snippet comes from the first part that matches
+          if (result) {
+            result.matchCount += count;
+          } else {
+            result = {
+              conversation,
+              message,
+              source: part.source,
+              sourceLabel: part.label,
+              snippet: makeSnippet(part.text, lower.indexOf(needle), needle.length),
+              matchCount: count
+            };
+          }
+        }
+
+        if (result) results.push(result);
+      });
+    });
+
+    return results
+      .sort((a, b) => b.message.timestamp.getTime() - a.message.timestamp.getTime())
+      .slice(0, MAX_RESULTS);
+  }
+
+  /**
+   * Wrap matches in rendered HTML with <mark>. Works on the parsed text nodes, so entities, tags and
+   * attribute values are never touched and sanitized markup stays sanitized
+   */
+  static highlightHTML(html: string, query: string): string {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return html;
+
+    // Template content is inert: nothing in it runs or loads while it is edited
+    const template = document.createElement('template');
+    template.innerHTML = html;
+
+    const walker = document.createTreeWalker(template.content, NodeFilter.SHOW_TEXT);
+    const textNodes: Text[] = [];
+    while (walker.nextNode()) {
+      textNodes.push(walker.currentNode as Text);
+    }
+
+    textNodes.forEach(node => {
+      const text = node.data;
+      const lowerText = text.toLowerCase();
+      let index = lowerText.indexOf(needle);
+      if (index === -1) return;
+
+      const fragment = document.createDocumentFragment();
+      let start = 0;
+      while (index !== -1) {
+        fragment.append(text.substring(start, index));
+        const mark = document.createElement('mark');
+        mark.className = MARK_CLASSNAME;
+        mark.textContent = text.substring(index, index + needle.length);
+        fragment.append(mark);
+        start = index + needle.length;
+        index = lowerText.indexOf(needle, start);
+      }
+      fragment.append(text.substring(start));
+      node.replaceWith(fragment);
+    });
+
+    return template.innerHTML;
+  }
+
+  /**
+   * Models that wrote replies in any conversation, for the model filter
+   */
+  static getModels(conversations: Conversation[]): string[] {
+    const models = new Set<string>();
+    conversations.forEach(conversation => conversation.messages.forEach(message => {
+      if (message.model) models.add(message.model);
+    }));
+    return [...models].sort();
+  }
+}
@@ -0,0 +1,84 @@
+import { ChatMessage, ChatRequest, ProviderConfig } from '../types';
+import { AIClient } from './aiClient';
+
+export interface GeneratedTitle {
+  title: string;
+  summary: string;
+}
+
+const MAX_TITLE_LENGTH = 60;
+const MAX_SUMMARY_LENGTH = 160;
+// Characters of each message sent along - the opening of a chat is enough to name it
+const MAX_MESSAGE_LENGTH = 1500;
+const MAX_MESSAGES = 6;
+
+const TITLE_INSTRUCTION = `You name chat conversations. Reply with exactly two lines and nothing else:
+Title: <a specific title of at most 6 words, no quotes or trailing period>
+Summary: <one sentence of at most 25 words describing what the conversation is about>`;
+
+// Models like to wrap answers in quotes, bold or headings
+const clean = (text: string, maxLength: number): string => {
+  const cleaned = text
+    .replace(/^[\s#*_>"'`-]+|[\s*_"'`]+$/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return cleaned.length > maxLength ? `${cleaned.substring(0, maxLength - 1).trimEnd()}…` : cleaned;
+};
+
+export class ConversationTitler {
+  /**
+   * Whether the chat has a first exchange worth naming: a real prompt and a reply that didn't fail
+   */
+  static hasFirstExchange(messages: ChatMessage[]): boolean {
+    const prompts = messages.filter(message => message.role === 'user' && !message.content.startsWith('/'));
+    return prompts.length > 0 && messages.some(message => message.role === 'ai' && !!message.model && !message.error && !!message.content.trim());
+  }
+
+  /**
+   * The opening of the chat as one prompt - commands, system notes and attachment data are left out
+   */
+  static buildRequest(messages: ChatMessage[]): ChatRequest {
+    const transcript = messages
+      .filter(message => message.role === 'ai' ? !!message.model : message.role === 'user' && !message.content.startsWith('/'))
+      .slice(0, MAX_MESSAGES)
+      .map(message => {
+        const content = message.content.length > MAX_MESSAGE_LENGTH
+          ? `${message.content.substring(0, MAX_MESSAGE_LENGTH)}...`
+          : message.content;
+        const attachments = message.attachments?.length
+          ? `\n[Attached: ${message.attachments.map(attachment => attachment.name).join(', ')}]`
+          : '';
+        return `${message.role === 'user' ? 'User' : 'Assistant'}: ${content}${attachments}`;
+      })
+      .join('\n\n');
+
+    return {
+      system: TITLE_INSTRUCTION,
+      turns: [{ role: 'user', text: `Conversation:\n\n${transcript}`, images: [] }]
+    };
+  }
+
+  /**
+   * Read the title and summary lines, tolerating answers that ignore the format
+   */
+  static parse(response: string): GeneratedTitle {
+    const lines = response.split('\n').map(line => line.trim()).filter(Boolean);
+    const titleLine = lines.find(line => /^\W*title\W*:/i.test(line));
+    const summaryLine = lines.find(line => /^\W*summary\W*:/i.test(line));
+
+    const title = clean((titleLine || lines[0] || '').replace(/^\W*title\W*:/i, ''), MAX_TITLE_LENGTH);
+    const summary = clean((summaryLine || lines.find(line => line !== (titleLine || lines[0])) || '').replace(/^\W*summary\W*:/i, ''), MAX_SUMMARY_LENGTH);
+
+    if (!title) {
+      throw new Error('The model did not return a title');
+    }
+    return { title, summary };
+  }
+
+  /**
+   * Ask the model for a short title and a one-line summary of the chat
+   */
+  static async generate(config: ProviderConfig, messages: ChatMessage[], signal?: AbortSignal): Promise<GeneratedTitle> {
+    return this.parse(await AIClient.complete(config, this.buildRequest(messages), signal));
+  }
+}
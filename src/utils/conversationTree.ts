@@ -0,0 +1,116 @@
+import { ChatMessage, VersionInfo } from '../types';
+
+// Conversations are trees: editing a message or regenerating a reply adds a sibling branch instead of replacing it.
+// All messages stay in one list in creation order (children always after their parent); the active path is what the
+// chat shows and what gets sent as context.
+export class ConversationTree {
+  /**
+   * Parent of every message - messages saved before branching existed follow the previous message in the list
+   */
+  static getParentIds(messages: ChatMessage[]): Map<string, string | null> {
+    const parentIds = new Map<string, string | null>();
+    messages.forEach((message, index) => {
+      parentIds.set(message.id, message.parentId !== undefined ? message.parentId : messages[index - 1]?.id ?? null);
+    });
+    return parentIds;
+  }
+
+  /**
+   * Messages from the root down to the active leaf - the last message when no leaf is selected
+   */
+  static getActivePath(messages: ChatMessage[], activeLeafId?: string): ChatMessage[] {
+    if (messages.length === 0) return [];
+
+    const byId = new Map(messages.map(message => [message.id, message]));
+    const parentIds = this.getParentIds(messages);
+    const path: ChatMessage[] = [];
+
+    let current: ChatMessage | undefined = (activeLeafId && byId.get(activeLeafId)) || messages[messages.length - 1];
+    while (current) {
+      path.unshift(current);
+      const parentId = parentIds.get(current.id);
+      current = parentId ? byId.get(parentId) : undefined;
+    }
+
+    return path;
+  }
+
+  /**
+   * Alternative versions of a message: the messages with the same parent and role, oldest first
+   */
+  static getSiblings(messages: ChatMessage[], messageId: string): ChatMessage[] {
+    const parentIds = this.getParentIds(messages);
+    const message = messages.find(candidate => candidate.id === messageId);
+    if (!message) return [];
+
+    const parentId = parentIds.get(messageId);
+    return messages.filter(candidate => candidate.role === message.role && parentIds.get(candidate.id) === parentId);
+  }
+
+  /**
+   * Version numbers of every message on the path that has alternatives
+   */
+  static getVersionInfo(messages: ChatMessage[], path: ChatMessage[]): Record<string, VersionInfo> {
+    const parentIds = this.getParentIds(messages);
+    const versions: Record<string, VersionInfo> = {};
+    path.forEach(message => {
+      const parentId = parentIds.get(message.id);
+      const siblings = messages.filter(candidate => candidate.role === message.role && parentIds.get(candidate.id) === parentId);
+      if (siblings.length > 1) {
+        versions[message.id] = {
+          currentVersion: siblings.findIndex(sibling => sibling.id === message.id) + 1,
+          totalVersions: siblings.length
+        };
+      }
+    });
+    return versions;
+  }
+
+  /**
+   * Leaf to show when switching to a branch - its most recently created descendant
+   */
+  static getLatestLeaf(messages: ChatMessage[], messageId: string): string {
+    const parentIds = this.getParentIds(messages);
+    const branch = new Set([messageId]);
+    let leafId = messageId;
+
+    messages.forEach(message => {
+      const parentId = parentIds.get(message.id);
+      if (parentId && branch.has(parentId)) {
+        branch.add(message.id);
+        leafId = message.id;
+      }
+    });
+
+    return leafId;
+  }
+
+  /**
+   * Write an edited active path back into the tree: messages new to the path are chained onto it, and messages
+   * dropped from it are deleted along with every branch below them
+   */
+  static applyPath(messages: ChatMessage[], oldPath: ChatMessage[], newPath: ChatMessage[]): ChatMessage[] {
+    const parentIds = this.getParentIds(messages);
+    // Parent ids are written out, so removing a message never re-parents the one after it
+    const withParent = (message: ChatMessage, parentId: string | null): ChatMessage => {
+      return message.parentId === parentId ? message : { ...message, parentId };
+    };
+    const onNewPath = new Map(newPath.map((message, index) => [message.id, withParent(message, newPath[index - 1]?.id ?? null)]));
+
+    const removed = new Set(oldPath.filter(message => !onNewPath.has(message.id)).map(message => message.id));
+    messages.forEach(message => {
+      const parentId = parentIds.get(message.id);
+      if (parentId && removed.has(parentId) && !onNewPath.has(message.id)) {
+        removed.add(message.id);
+      }
+    });
+
+    const existingIds = new Set(messages.map(message => message.id));
+    const kept = messages
+      .filter(message => !removed.has(message.id))
+      .map(message => onNewPath.get(message.id) || withParent(message, parentIds.get(message.id) ?? null));
+    const added = newPath.filter(message => !existingIds.has(message.id)).map(message => onNewPath.get(message.id)!);
+
+    return [...kept, ...added];
+  }
+}
@@ -0,0 +1,140 @@
+import type { Mermaid } from 'mermaid';
+import type { instance } from '@viz-js/viz';
+
+export type DiagramKind = 'mermaid' | 'graphviz';
+
+type Viz = Awaited<ReturnType<typeof instance>>;
+
+// Fence languages that are drawn as diagrams
+const LANGUAGE_KINDS: Record<string, DiagramKind> = {
+  mermaid: 'mermaid',
+  dot: 'graphviz',
+  graphviz: 'graphviz',
+  gv: 'graphviz'
+};
+
+export const DIAGRAM_LABELS: Record<DiagramKind, string> = {
+  mermaid: 'Mermaid',
+  graphviz: 'Graphviz'
+};
+
+// PNGs are drawn at twice the diagram size so they stay sharp, on the chat's background
+const PNG_SCALE = 2;
+const PNG_BACKGROUND = '#111827';
+
+// A source always renders the same way, so failures are cached along with results
+const cache = new Map<string, Promise<string>>();
+
+// Both libraries are large, so they are only loaded once a diagram is shown
+let mermaidLoader: Promise<Mermaid> | null = null;
+let vizLoader: Promise<Viz> | null = null;
+
+const loadMermaid = (): Promise<Mermaid> => {
+  if (!mermaidLoader) {
+    mermaidLoader = import('mermaid').then(({ default: mermaid }) => {
+      // Plain SVG text labels instead of HTML ones, so the diagram can be drawn to a canvas for PNG export
+      mermaid.initialize({ startOnLoad: false, securityLevel: 'strict', theme: 'dark', htmlLabels: false, suppressErrorRendering: true });
+      return mermaid;
+    });
+  }
+  return mermaidLoader;
+};
+
+const loadViz = (): Promise<Viz> => {
+  if (!vizLoader) {
+    vizLoader = import('@viz-js/viz').then(viz => viz.instance());
+  }
+  return vizLoader;
+};
+
+// Mermaid sizes its SVG to the container; images need explicit dimensions, taken from the viewBox
+const withExplicitSize = (svg: string): string => {
+  const document = new DOMParser().parseFromString(svg, 'image/svg+xml');
+  const root = document.documentElement;
+  const viewBox = root.getAttribute('viewBox')?.split(/[\s,]+/).map(Number);
+
+  if (viewBox?.length === 4 && (!root.getAttribute('width') || root.getAttribute('width')?.endsWith('%'))) {
+    root.setAttribute('width', String(Math.ceil(viewBox[2])));
+    root.setAttribute('height', String(Math.ceil(viewBox[3])));
+    root.style.removeProperty('max-width');
+  }
+  root.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  return new XMLSerializer().serializeToString(root);
+};
+
+const renderMermaid = async (source: string): Promise<string> => {
+  const mermaid = await loadMermaid();
+  const id = `diagram-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  try {
+    const { svg } = await mermaid.render(id, source);
+    return svg;
+  } finally {
+    // Mermaid renders into a temporary element that is left behind when parsing fails
+    document.getElementById(`d${id}`)?.remove();
+  }
+};
+
+const renderGraphviz = async (source: string): Promise<string> => {
+  const viz = await loadViz();
+  const result = viz.render(source, { format: 'svg' });
+  if (result.status === 'failure') {
+    throw new Error(result.errors.map(error => error.message.trim()).join('\n') || 'Graphviz could not render the graph');
+  }
+  return result.output;
+};
+
+export class DiagramRenderer {
+  /**
+   * Diagram type of a fenced block's language, or null for ordinary code
+   */
+  static getKind(language: string): DiagramKind | null {
+    return LANGUAGE_KINDS[language.trim().toLowerCase()] || null;
+  }
+
+  /**
+   * Render diagram source to a standalone SVG document; rejects with the library's syntax error
+   */
+  static render(kind: DiagramKind, source: string): Promise<string> {
+    const key = `${kind}\u0000${source}`;
+    let result = cache.get(key);
+    if (!result) {
+      result = (kind === 'mermaid' ? renderMermaid(source) : renderGraphviz(source)).then(withExplicitSize);
+      cache.set(key, result);
+    }
+    return result;
+  }
+
+  /**
+   * Data URL for showing an SVG as an image - scripts and links inside it stay inert, unlike inline markup
+   */
+  static toDataURL(svg: string): string {
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  }
+
+  /**
+   * Rasterize an SVG to a PNG
+   */
+  static async toPNG(svg: string): Promise<Blob> {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('The diagram could not be loaded as an image'));
+      image.src = this.toDataURL(svg);
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(image.naturalWidth * PNG_SCALE);
+    canvas.height = Math.ceil(image.naturalHeight * PNG_SCALE);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas is not available in this browser');
+    }
+    context.fillStyle = PNG_BACKGROUND;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('The diagram could not be converted to PNG')), 'image/png');
+    });
+  }
+}
@@ -9,15 +9,20 @@ export class DocumentProcessor {
   /**
    * Process a PDF file and convert each page to an image
    */
-  static async processPDF(file: File): Promise<{ textContent: string; pages: DocumentPage[] }> {
+  static async processPDF(file: File, signal?: AbortSignal): Promise<{ textContent: string; pages: DocumentPage[] }> {
+    let pdf: pdfjsLib.PDFDocumentProxy | null = null;
+
     try {
       const arrayBuffer = await file.arrayBuffer();
-      const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+      signal?.throwIfAborted();
+      pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
       
       const pages: DocumentPage[] = [];
       let fullTextContent = '';
       
       for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+        // Stop between pages when processing has been cancelled
+        signal?.throwIfAborted();
         const page = await pdf.getPage(pageNum);
         
         // Extract text content
@@ -41,7 +46,15 @@ export class DocumentProcessor {
           viewport: viewport,
         };
         
-        await page.render(renderContext).promise;
+        const renderTask = page.render(renderContext);
+        const cancelRender = () => renderTask.cancel();
+        signal?.addEventListener('abort', cancelRender);
+        try {
+          await renderTask.promise;
+        } finally {
+          signal?.removeEventListener('abort', cancelRender);
+        }
+        signal?.throwIfAborted();
         
         // Convert canvas to base64 image
         const imageBase64 = canvas.toDataURL('image/jpeg', 0.8);
@@ -59,8 +72,13 @@ export class DocumentProcessor {
         pages
       };
     } catch (error) {
+      // Cancellation is not a failure - let the caller recognise it
+      if (signal?.aborted) throw signal.reason;
       console.error('Error processing PDF:', error);
       throw new Error(`Failed to process PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      // Release the worker-side document, including when processing was cancelled mid-way
+      pdf?.destroy();
     }
   }
   
@@ -79,12 +97,12 @@ export class DocumentProcessor {
   /**
    * Process various document types
    */
-  static async processDocument(file: File): Promise<{ textContent: string; pages?: DocumentPage[] }> {
+  static async processDocument(file: File, signal?: AbortSignal): Promise<{ textContent: string; pages?: DocumentPage[] }> {
     const fileExt = file.name.split('.').pop()?.toLowerCase();
     
     switch (fileExt) {
       case 'pdf':
-        return await this.processPDF(file);
+        return await this.processPDF(file, signal);
       
       case 'md':
       case 'txt':
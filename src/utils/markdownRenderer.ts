@@ -0,0 +1,27 @@
+import { Marked } from 'marked';
+import { SyntaxHighlighter } from './syntaxHighlighter';
+import { HtmlSanitizer } from './htmlSanitizer';
+import { CodeFences } from './codeFences';
+import { MathRenderer } from './mathRenderer';
+
+// Fenced code is highlighted as it is rendered; the fence's info string names the language
+const markdown = new Marked({
+  renderer: {
+    code(code: string, infostring: string | undefined) {
+      const { html, language } = SyntaxHighlighter.highlight(code, CodeFences.parseInfo((infostring || '').trim()).language);
+      const className = language.replace(/[^\w+#.-]/g, '');
+      return `<pre><code class="hljs${className ? ` language-${className}` : ''}">${html}</code></pre>\n`;
+    }
+  },
+  extensions: MathRenderer.extensions
+});
+
+export class MarkdownRenderer {
+  /**
+   * Render chat markdown to sanitized HTML - model replies and loaded files can contain arbitrary HTML.
+   * Math is typeset after sanitizing, since KaTeX output relies on inline styles the allowlist drops
+   */
+  static render(content: string): string {
+    return MathRenderer.renderPlaceholders(HtmlSanitizer.sanitize(markdown.parse(content, { async: false }) as string));
+  }
+}
@@ -0,0 +1,109 @@
+import katex from 'katex';
+import { TokenizerAndRendererExtension, Tokens } from 'marked';
+
+// Same reasoning as the highlighter: messages re-render on every streamed chunk
+const CACHE_SIZE = 500;
+const cache = new Map<string, string>();
+
+// $$...$$ and \[...\] on their own lines
+const BLOCK_PATTERN = /^ {0,3}(?:\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\])[ \t]*(?:\n+|$)/;
+// $...$ must hug its content and can't be followed by a digit, so prices like "$5 and $10" stay text
+const INLINE_PATTERNS: { pattern: RegExp; displayMode: boolean }[] = [
+  { pattern: /^\$\$([\s\S]+?)\$\$/, displayMode: true },
+  { pattern: /^\\\[([\s\S]+?)\\\]/, displayMode: true },
+  { pattern: /^\\\(([\s\S]+?)\\\)/, displayMode: false },
+  { pattern: /^\$(?=\S)((?:\\[\s\S]|[^\\$\n])*?\S)\$(?!\d)/, displayMode: false }
+];
+
+// Equations leave marked as escaped TeX in these wrappers and are typeset after sanitizing (see renderPlaceholders)
+const PLACEHOLDER_PATTERN = /<(span|div) class="math-(inline|display)">([\s\S]*?)<\/\1>/g;
+
+const escapeHTML = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+const unescapeHTML = (html: string): string => {
+  return html
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, '\'')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+};
+
+// Display math inside a paragraph keeps a span, so the markup stays valid inside <p>
+const placeholder = (tex: string, displayMode: boolean, tag: 'div' | 'span'): string => {
+  return `<${tag} class="math-${displayMode ? 'display' : 'inline'}">${escapeHTML(tex.trim())}</${tag}>`;
+};
+
+const blockMath: TokenizerAndRendererExtension = {
+  name: 'blockMath',
+  level: 'block',
+  tokenizer(src: string) {
+    const match = BLOCK_PATTERN.exec(src);
+    if (match) {
+      return { type: 'blockMath', raw: match[0], text: match[1] ?? match[2] };
+    }
+  },
+  renderer(token: Tokens.Generic) {
+    return `${placeholder(token.text, true, 'div')}\n`;
+  }
+};
+
+const inlineMath: TokenizerAndRendererExtension = {
+  name: 'inlineMath',
+  level: 'inline',
+  // An escaped \$ is included so the text run stops before it and marked's escape rule gets to handle it
+  start(src: string) {
+    return src.search(/\\?\$|\\[([]/);
+  },
+  tokenizer(src: string) {
+    for (const { pattern, displayMode } of INLINE_PATTERNS) {
+      const match = pattern.exec(src);
+      if (match) {
+        return { type: 'inlineMath', raw: match[0], text: match[1], displayMode };
+      }
+    }
+  },
+  renderer(token: Tokens.Generic) {
+    return placeholder(token.text, token.displayMode, 'span');
+  }
+};
+
+export class MathRenderer {
+  // Marked extensions for $...$, $$...$$, \(...\) and \[...\] - TeX inside code spans and fences is never seen, as those are consumed whole
+  static readonly extensions = [blockMath, inlineMath];
+
+  /**
+   * Typeset TeX with KaTeX; errors are shown in place instead of throwing
+   */
+  static render(tex: string, displayMode: boolean): string {
+    const key = `${displayMode ? 'display' : 'inline'}\u0000${tex}`;
+    const cached = cache.get(key);
+    if (cached) return cached;
+
+    // trust stays off, so \href, \url and \htmlClass can't add links or classes
+    const html = katex.renderToString(tex, { displayMode, throwOnError: false, output: 'html', strict: 'ignore' });
+
+    if (cache.size >= CACHE_SIZE) {
+      cache.delete(cache.keys().next().value as string);
+    }
+    cache.set(key, html);
+    return html;
+  }
+
+  /**
+   * Replace sanitized math placeholders with KaTeX output; the source is kept in data-latex for copying
+   */
+  static renderPlaceholders(html: string): string {
+    return html.replace(PLACEHOLDER_PATTERN, (_match, tag: string, kind: string, escaped: string) => {
+      const tex = unescapeHTML(escaped);
+      return `<${tag} class="math-${kind}" data-latex="${escapeHTML(tex)}" title="Click to copy LaTeX">${this.render(tex, kind === 'display')}</${tag}>`;
+    });
+  }
+}
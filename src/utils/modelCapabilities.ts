@@ -0,0 +1,117 @@
+import { FileAttachment, ModelCapabilities, ModelInfo } from '../types';
+
+export interface AttachmentCheck {
+  error?: string; // The message can't be sent to this model as-is
+  warning?: string; // It can, but not everything will reach the model
+}
+
+// Local knowledge for what listing endpoints don't report (or report wrongly).
+// Every matching entry is applied in order, and the first one to set a field wins.
+const MODEL_OVERRIDES: [RegExp, Partial<ModelCapabilities>][] = [
+  // Vision-capable local and open models, whatever their context size
+  [/llava|bakllava|llama-?3\.2-vision|pixtral|moondream|minicpm-v|gemma-?3|qwen2?\.?5?-?vl|-vision/, { vision: true }],
+
+  [/gemini-pro-vision|gemini-1\.0-pro-vision/, { contextTokens: 12_288, maxOutputTokens: 4_096, vision: true, tools: false, jsonMode: false }],
+  [/gemini-1\.5-pro/, { contextTokens: 2_097_152, maxOutputTokens: 8_192, vision: true, tools: true, jsonMode: true }],
+  [/gemini-2\.5/, { contextTokens: 1_048_576, maxOutputTokens: 65_536, vision: true, tools: true, jsonMode: true }],
+  [/gemini-(1\.5|2|exp)/, { contextTokens: 1_048_576, maxOutputTokens: 8_192, vision: true, tools: true, jsonMode: true }],
+  [/gemini/, { contextTokens: 30_720, maxOutputTokens: 2_048, vision: false, tools: true, jsonMode: false }],
+
+  [/gpt-4\.1/, { contextTokens: 1_047_576, maxOutputTokens: 32_768, vision: true, tools: true, jsonMode: true }],
+  [/gpt-4o|gpt-5/, { contextTokens: 128_000, maxOutputTokens: 16_384, vision: true, tools: true, jsonMode: true }],
+  [/gpt-4-turbo|gpt-4-vision/, { contextTokens: 128_000, maxOutputTokens: 4_096, vision: true, tools: true, jsonMode: true }],
+  [/gpt-4-\d{4}-preview/, { contextTokens: 128_000, maxOutputTokens: 4_096, vision: false, tools: true, jsonMode: true }],
+  [/gpt-4-32k/, { contextTokens: 32_768, vision: false, tools: true, jsonMode: false }],
+  [/gpt-4/, { contextTokens: 8_192, vision: false, tools: true, jsonMode: false }],
+  [/gpt-3\.5-turbo/, { contextTokens: 16_385, maxOutputTokens: 4_096, vision: false, tools: true, jsonMode: true }],
+  [/(^|\/)o\d-mini/, { contextTokens: 128_000, vision: false, tools: true, jsonMode: true }],
+  [/(^|\/)o\d/, { contextTokens: 200_000, maxOutputTokens: 100_000, vision: true, tools: true, jsonMode: true }],
+
+  [/claude-3-5-haiku/, { contextTokens: 200_000, maxOutputTokens: 8_192, vision: false, tools: true, jsonMode: false }],
+  [/claude-2|claude-instant/, { contextTokens: 100_000, maxOutputTokens: 4_096, vision: false, tools: false, jsonMode: false }],
+  [/claude/, { contextTokens: 200_000, maxOutputTokens: 8_192, vision: true, tools: true, jsonMode: false }],
+
+  [/llama-?3\.[1-3]|qwen2\.5|mistral-(large|small)|deepseek/, { contextTokens: 128_000 }],
+  [/llama-?3|codellama|llama-?2|mistral/, { contextTokens: 8_192 }],
+];
+
+// Used when nothing is known about the model
+const DEFAULT_CONTEXT_TOKENS = 32_768;
+
+export class ModelCapabilityRegistry {
+  /**
+   * Capabilities from the local overrides table alone
+   */
+  static lookup(model?: string | null): Partial<ModelCapabilities> {
+    const name = (model || '').toLowerCase();
+    const known: Partial<ModelCapabilities> = {};
+
+    MODEL_OVERRIDES.filter(([pattern]) => pattern.test(name)).forEach(([, capabilities]) => {
+      (Object.keys(capabilities) as (keyof ModelCapabilities)[]).forEach(key => {
+        if (known[key] === undefined) {
+          (known as Record<string, unknown>)[key] = capabilities[key];
+        }
+      });
+    });
+
+    return known;
+  }
+
+  /**
+   * Resolve a model's capabilities - what the provider reported wins, the overrides table fills the gaps
+   */
+  static resolve(model?: string | null, reported?: ModelInfo): ModelCapabilities {
+    // Listing metadata only counts for the model it was reported for
+    const info = reported && reported.id === model ? reported : undefined;
+    const known = this.lookup(model);
+
+    return {
+      contextTokens: info?.inputTokenLimit ?? known.contextTokens ?? DEFAULT_CONTEXT_TOKENS,
+      maxOutputTokens: info?.outputTokenLimit ?? known.maxOutputTokens,
+      vision: info?.vision ?? known.vision,
+      tools: info?.tools ?? known.tools,
+      jsonMode: info?.jsonMode ?? known.jsonMode
+    };
+  }
+
+  /**
+   * Check pending attachments against the model: images are refused for text-only models, PDF pages are sent as text
+   */
+  static checkAttachments(capabilities: ModelCapabilities, model: string, attachments: FileAttachment[]): AttachmentCheck {
+    const hasImages = attachments.some(attachment => attachment.type.startsWith('image/'));
+    const hasPages = attachments.some(attachment => attachment.documentPages && attachment.documentPages.length > 0);
+    if (!hasImages && !hasPages) return {};
+
+    if (capabilities.vision === false) {
+      if (hasImages) {
+        return { error: `${model} is text-only and can't read images. Remove the image attachments or switch to a vision model with /model.` };
+      }
+      return { warning: `${model} is text-only - PDF page images will be skipped and only the extracted text is sent.` };
+    }
+    if (capabilities.vision === undefined) {
+      return { warning: `Image support for ${model} is unknown - the provider may reject image attachments.` };
+    }
+    return {};
+  }
+
+  /**
+   * One-line summary, e.g. "128k context · 16k output · vision · tools · JSON"
+   */
+  static describe(capabilities: ModelCapabilities): string {
+    const parts = [`${this.formatTokens(capabilities.contextTokens)} context`];
+    if (capabilities.maxOutputTokens) parts.push(`${this.formatTokens(capabilities.maxOutputTokens)} output`);
+    parts.push(capabilities.vision === undefined ? 'vision unknown' : capabilities.vision ? 'vision' : 'text-only');
+    if (capabilities.tools) parts.push('tools');
+    if (capabilities.jsonMode) parts.push('JSON');
+    return parts.join(' · ');
+  }
+
+  /**
+   * Short token count for labels, e.g. 128k or 1M
+   */
+  static formatTokens(tokens: number): string {
+    if (tokens >= 1_000_000) return `${+(tokens / 1_048_576).toFixed(1)}M`;
+    if (tokens >= 1000) return `${Math.round(tokens / 1000)}k`;
+    return `${tokens}`;
+  }
+}
@@ -0,0 +1,47 @@
+export class SSEReader {
+  /**
+   * Read a Server-Sent Events response body and call onData with each event's data payload
+   */
+  static async read(response: Response, onData: (data: string) => void): Promise<void> {
+    if (!response.body) {
+      throw new Error('Streaming is not supported by this browser');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let dataLines: string[] = [];
+
+    const dispatch = () => {
+      if (dataLines.length > 0) {
+        onData(dataLines.join('\n'));
+        dataLines = [];
+      }
+    };
+
+    const processLine = (line: string) => {
+      if (line === '') {
+        // A blank line terminates the current event
+        dispatch();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).replace(/^ /, ''));
+      }
+      // Comments (": keep-alive") and other fields (event:, id:, retry:) are ignored
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? '';
+      lines.forEach(processLine);
+    }
+
+    // Flush whatever is left when the stream closes without a trailing blank line
+    buffer += decoder.decode();
+    if (buffer) processLine(buffer);
+    dispatch();
+  }
+}
@@ -0,0 +1,46 @@
+import hljs from 'highlight.js/lib/common';
+
+export interface HighlightedCode {
+  html: string; // Escaped code with highlight.js token spans
+  language: string; // Language used, detected when none was given; empty when unknown
+}
+
+// Chat messages re-render on every streamed chunk, so highlighted blocks are cached
+const CACHE_SIZE = 500;
+const cache = new Map<string, HighlightedCode>();
+
+const escapeHTML = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+};
+
+export class SyntaxHighlighter {
+  /**
+   * Highlight code with highlight.js - the language is detected when none is given, unknown languages stay plain
+   */
+  static highlight(code: string, language?: string): HighlightedCode {
+    const name = language?.trim().toLowerCase() || '';
+    const key = `${name}\u0000${code}`;
+    const cached = cache.get(key);
+    if (cached) return cached;
+
+    let result: HighlightedCode;
+    if (name && hljs.getLanguage(name)) {
+      result = { html: hljs.highlight(code, { language: name, ignoreIllegals: true }).value, language: name };
+    } else if (!name) {
+      const detected = hljs.highlightAuto(code);
+      result = { html: detected.value, language: detected.language || '' };
+    } else {
+      result = { html: escapeHTML(code), language: name };
+    }
+
+    // Maps iterate in insertion order, so the first key is the oldest entry
+    if (cache.size >= CACHE_SIZE) {
+      cache.delete(cache.keys().next().value as string);
+    }
+    cache.set(key, result);
+    return result;
+  }
+}